@@ -0,0 +1,30 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { ZodError } from 'zod';
+import { contentAuditRequestSchema, type ContentAuditResponse } from '../shared/schema';
+import { auditContent } from '../shared/analysis';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const { projectId, seoRules, ...input } = contentAuditRequestSchema.parse(req.body);
+    // Project rule sets are saved on the app server; serverless functions only
+    // see the rules sent with the request
+    if (projectId) {
+      return res.status(400).json({ message: 'Project rule sets are not available here; send seoRules with the request instead' });
+    }
+    const response: ContentAuditResponse = auditContent(input, seoRules);
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Content audit error:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Failed to audit content"
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { ZodError } from 'zod';
+import { serpPreviewRequestSchema, type SerpPreviewResponse } from '../shared/schema';
+import { buildSerpPreview } from '../shared/analysis';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const { title, description, url } = serpPreviewRequestSchema.parse(req.body);
+    const response: SerpPreviewResponse = buildSerpPreview(title, description, url);
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("SERP preview error:", error);
+    res.status(500).json({ 
+      message: error instanceof Error ? error.message : "Failed to build SERP preview" 
+    });
+  }
+}
@@ -1,10 +1,7 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface TitleCaseResponse {
-  original: string;
-  converted: string;
-  rulesApplied: string[];
-}
+import { ZodError } from 'zod';
+import { titleCaseRequestSchema, type TitleCaseResponse } from '../shared/schema';
+import { toTitleCase } from '../shared/analysis';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
@@ -12,53 +9,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { text } = req.body;
-    
-    if (!text || typeof text !== 'string' || text.trim().length === 0) {
-      return res.status(400).json({ message: 'Text is required' });
-    }
-    
-    const stopWords = new Set([
-      'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'if', 'in', 
-      'is', 'it', 'nor', 'of', 'on', 'or', 'so', 'the', 'to', 'up', 'yet'
-    ]);
-
-    const words = text.toLowerCase().split(/\s+/);
-    const convertedWords = words.map((word, index) => {
-      // Always capitalize first and last word
-      if (index === 0 || index === words.length - 1) {
-        return word.charAt(0).toUpperCase() + word.slice(1);
-      }
-      
-      // Don't capitalize stop words unless they're first/last
-      if (stopWords.has(word)) {
-        return word;
-      }
-      
-      // Capitalize everything else
-      return word.charAt(0).toUpperCase() + word.slice(1);
-    });
-
-    const converted = convertedWords.join(' ');
-    
-    const rulesApplied = [
-      "Capitalized major words (nouns, verbs, adjectives)",
-      "Kept articles lowercase (a, an, the)",
-      "Kept prepositions lowercase (for, to, in, of, etc.)",
-      "Capitalized first and last words"
-    ];
-
-    const response: TitleCaseResponse = {
-      original: text,
-      converted,
-      rulesApplied,
-    };
+    const { text, ...options } = titleCaseRequestSchema.parse(req.body);
+    const response: TitleCaseResponse = toTitleCase(text, options);
 
     res.status(200).json(response);
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
     console.error("Title case conversion error:", error);
     res.status(500).json({ 
       message: error instanceof Error ? error.message : "Failed to convert title case" 
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { ZodError } from 'zod';
+import { titleCaseBatchRequestSchema, type TitleCaseBatchResponse } from '../../shared/schema';
+import { toTitleCaseBatch } from '../../shared/analysis';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const { texts, ...options } = titleCaseBatchRequestSchema.parse(req.body);
+    const response: TitleCaseBatchResponse = toTitleCaseBatch(texts, options);
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Batch title case conversion error:", error);
+    res.status(500).json({ 
+      message: error instanceof Error ? error.message : "Failed to convert titles" 
+    });
+  }
+}
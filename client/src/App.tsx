@@ -11,6 +11,10 @@ import TitleCaseTool from "@/pages/TitleCaseTool";
 import KeywordDensityTool from "@/pages/KeywordDensityTool";
 import SeoTitleGeneratorTool from "@/pages/SeoTitleGeneratorTool";
 import BlogPublisherTool from "@/pages/BlogPublisherTool";
+import ContentAuditTool from "@/pages/ContentAuditTool";
+import BlogOutlineTool from "@/pages/BlogOutlineTool";
+import BlogPostWriterTool from "@/pages/BlogPostWriterTool";
+import ArticleWriterTool from "@/pages/ArticleWriterTool";
 import PrivacyPolicy from "@/pages/PrivacyPolicy";
 import TermsOfService from "@/pages/TermsOfService";
 import Contact from "@/pages/Contact";
@@ -28,6 +32,10 @@ function Router() {
           <Route path="/keyword-density" component={KeywordDensityTool} />
           <Route path="/seo-title-generator" component={SeoTitleGeneratorTool} />
           <Route path="/blog-publisher" component={BlogPublisherTool} />
+          <Route path="/content-audit" component={ContentAuditTool} />
+          <Route path="/blog-outline" component={BlogOutlineTool} />
+          <Route path="/blog-post-writer" component={BlogPostWriterTool} />
+          <Route path="/article-writer" component={ArticleWriterTool} />
           <Route path="/privacy-policy" component={PrivacyPolicy} />
           <Route path="/terms-of-service" component={TermsOfService} />
           <Route path="/contact" component={Contact} />
@@ -0,0 +1,222 @@
+import type { ReactNode } from "react";
+import { Copy, Download, Clock, FileText, MessageSquare, Ruler, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import MarkdownPreview from "@/components/MarkdownPreview";
+import SeoScorePanel from "@/components/SeoScorePanel";
+import ReadabilityPanel from "@/components/ReadabilityPanel";
+import { downloadFile, slugify } from "@/lib/download";
+import { extractHeadings } from "@/lib/markdown";
+import { AUDIENCE_PROFILES } from "@shared/analysis";
+import type { BlogPostResponse, Tone } from "@shared/schema";
+
+interface GeneratedContentResultProps {
+  // Blog posts and articles share every field the panel shows
+  result: BlogPostResponse;
+  // Headings to list in the structure view; read from the document when omitted
+  structure?: { heading: string; level: number }[];
+  // Extra buttons shown beside Copy and Download
+  actions?: ReactNode;
+}
+
+const toneLabels: Record<Tone, string> = {
+  professional: "Professional",
+  casual: "Casual",
+  friendly: "Friendly",
+  authoritative: "Authoritative",
+};
+
+// Signed difference from a word target, as a whole percentage
+function formatDeviation(actual: number, target: number) {
+  const percent = Math.round(((actual - target) / Math.max(target, 1)) * 100);
+  return `${percent > 0 ? "+" : ""}${percent}%`;
+}
+
+export default function GeneratedContentResult({ result, structure, actions }: GeneratedContentResultProps) {
+  const { toast } = useToast();
+  const { toneAnalysis } = result;
+  const headings = structure || extractHeadings(result.document).map(({ level, text }) => ({ heading: text, level }));
+  const markdown = `# ${result.title}\n\n${result.content}`;
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadMarkdown = () => {
+    downloadFile(`${slugify(result.title)}.md`, markdown, 'text/markdown;charset=utf-8;');
+    toast({
+      title: "Download started",
+      description: "Markdown file has been downloaded",
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6" data-testid="results-section">
+      <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900" data-testid="text-result-title">{result.title}</h2>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-2">
+              <span className="flex items-center" data-testid="text-word-count">
+                <FileText className="h-4 w-4 mr-1" />
+                {result.wordCount.toLocaleString()} words
+              </span>
+              <span className="flex items-center" data-testid="text-reading-time">
+                <Clock className="h-4 w-4 mr-1" />
+                {result.readingTime} min read
+              </span>
+              <span className="flex items-center" data-testid="text-audience-profile">
+                <Users className="h-4 w-4 mr-1" />
+                For {AUDIENCE_PROFILES[result.audienceProfile].label.toLowerCase()}
+              </span>
+              <span className="font-mono" data-testid="text-seed">Seed {result.seed}</span>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => copyText(markdown, "Markdown")} data-testid="button-copy-markdown">
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadMarkdown} data-testid="button-download-markdown">
+              <Download className="h-4 w-4 mr-1" />
+              Download .md
+            </Button>
+            {actions}
+          </div>
+        </div>
+
+        <Tabs defaultValue="preview">
+          <TabsList>
+            <TabsTrigger value="preview" data-testid="tab-preview">Preview</TabsTrigger>
+            <TabsTrigger value="markdown" data-testid="tab-markdown">Markdown</TabsTrigger>
+            <TabsTrigger value="structure" data-testid="tab-structure">Structure</TabsTrigger>
+          </TabsList>
+          <TabsContent value="preview" className="pt-4">
+            <MarkdownPreview blocks={result.document} />
+          </TabsContent>
+          <TabsContent value="markdown" className="pt-4">
+            <pre className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-800 whitespace-pre-wrap font-mono max-h-[600px] overflow-y-auto" data-testid="text-markdown">
+              {markdown}
+            </pre>
+          </TabsContent>
+          <TabsContent value="structure" className="pt-4">
+            <ol className="space-y-2" data-testid="list-structure">
+              {headings.map((heading, index) => (
+                <li
+                  key={index}
+                  className={`flex items-center text-gray-800 ${heading.level > 2 ? "pl-6 text-sm text-gray-600" : "font-medium"}`}
+                >
+                  <span className="text-xs font-mono text-gray-400 w-8">H{heading.level}</span>
+                  {heading.heading}
+                </li>
+              ))}
+            </ol>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <div className="space-y-6">
+        <SeoScorePanel score={result.seoScore} rules={result.seoRules} />
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-length">
+          <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+            <Ruler className="h-4 w-4 mr-2 text-primary-600" />
+            Length
+          </h3>
+          <p className="text-sm text-gray-700" data-testid="text-length-summary">
+            {result.wordCount.toLocaleString()} of {result.targetWordCount.toLocaleString()} target words
+            <span className="text-gray-500"> ({formatDeviation(result.wordCount, result.targetWordCount)})</span>
+          </p>
+          <ul className="space-y-2 mt-4" data-testid="list-section-lengths">
+            {result.sectionWordCounts.map((section, index) => (
+              <li key={index} className="text-xs text-gray-600">
+                <div className="flex justify-between gap-2">
+                  <span className="truncate">{section.heading}</span>
+                  <span className="whitespace-nowrap">{section.wordCount} / {section.targetWords}</span>
+                </div>
+                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden mt-1">
+                  <div
+                    className="h-full bg-primary-500"
+                    style={{ width: `${Math.min(100, (section.wordCount / Math.max(section.targetWords, 1)) * 100)}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-tone">
+          <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+            <MessageSquare className="h-4 w-4 mr-2 text-primary-600" />
+            Detected Tone
+          </h3>
+          <div className="flex items-baseline gap-2">
+            <span className="text-2xl font-bold text-gray-900" data-testid="text-detected-tone">{toneLabels[toneAnalysis.tone]}</span>
+            <span className="text-sm text-gray-500">{Math.round(toneAnalysis.confidence * 100)}% confidence</span>
+          </div>
+          <div className="space-y-2 mt-4" data-testid="list-tone-scores">
+            {(Object.keys(toneLabels) as Tone[]).map((tone) => (
+              <div key={tone} className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-24">{toneLabels[tone]}</span>
+                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${tone === toneAnalysis.tone ? "bg-primary-600" : "bg-gray-400"}`}
+                    style={{ width: `${toneAnalysis.scores[tone] * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <dl className="grid grid-cols-2 gap-2 text-xs text-gray-600 mt-4">
+            <dt>Avg. sentence</dt>
+            <dd className="text-right" data-testid="text-sentence-length">{toneAnalysis.averageSentenceLength} words</dd>
+            <dt>"I" / "we" / "you"</dt>
+            <dd className="text-right">
+              {toneAnalysis.pronouns.firstPersonSingular} / {toneAnalysis.pronouns.firstPersonPlural} / {toneAnalysis.pronouns.secondPerson} per 100 words
+            </dd>
+            <dt>Contractions</dt>
+            <dd className="text-right">{toneAnalysis.contractions} per 100 words</dd>
+          </dl>
+        </div>
+
+        <ReadabilityPanel readability={result.readability} />
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="font-semibold text-gray-900">Meta Description</h3>
+            <Button variant="ghost" size="sm" onClick={() => copyText(result.metaDescription, "Meta description")} data-testid="button-copy-meta">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-sm text-gray-700" data-testid="text-meta-description">{result.metaDescription}</p>
+          <p className="text-xs text-gray-500 mt-2">{result.metaDescription.length} characters</p>
+        </div>
+
+        {result.suggestedTags.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="font-semibold text-gray-900 mb-3">Suggested Tags</h3>
+            <div className="flex flex-wrap gap-2" data-testid="list-tags">
+              {result.suggestedTags.map((tag) => (
+                <Badge key={tag} variant="secondary">{tag}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { splitBold } from "@/lib/markdown";
+import type { CalloutVariant, ContentBlock } from "@shared/schema";
+
+function InlineText({ text }: { text: string }) {
+  return (
+    <>
+      {splitBold(text).map((run, index) =>
+        run.bold ? <strong key={index}>{run.text}</strong> : <span key={index}>{run.text}</span>
+      )}
+    </>
+  );
+}
+
+const headingClasses: Record<number, string> = {
+  1: "text-3xl font-bold text-gray-900 mt-2 mb-4",
+  2: "text-2xl font-semibold text-gray-900 mt-8 mb-3",
+  3: "text-xl font-semibold text-gray-800 mt-6 mb-2",
+};
+
+const calloutClasses: Record<CalloutVariant, string> = {
+  tip: "border-green-500 bg-green-50",
+  note: "border-primary-500 bg-primary-50",
+  warning: "border-orange-500 bg-orange-50",
+};
+
+const calloutLabels: Record<CalloutVariant, string> = {
+  tip: "Tip",
+  note: "Note",
+  warning: "Warning",
+};
+
+export default function MarkdownPreview({ blocks }: { blocks: ContentBlock[] }) {
+  return (
+    <article className="text-gray-800 leading-relaxed" data-testid="markdown-preview">
+      {blocks.map((block, index) => {
+        if (block.type === "heading") {
+          const Tag = `h${Math.min(block.level, 6)}` as "h1" | "h2" | "h3" | "h4" | "h5" | "h6";
+          return (
+            <Tag key={index} className={headingClasses[block.level] || "text-lg font-semibold text-gray-800 mt-4 mb-2"}>
+              <InlineText text={block.text} />
+            </Tag>
+          );
+        }
+        if (block.type === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={index} className={`${block.ordered ? "list-decimal" : "list-disc"} pl-6 mb-4 space-y-1`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}><InlineText text={item} /></li>
+              ))}
+            </List>
+          );
+        }
+        if (block.type === "callout") {
+          return (
+            <aside key={index} className={`border-l-4 rounded-r-lg px-4 py-3 mb-4 ${calloutClasses[block.variant]}`} data-testid={`callout-${block.variant}`}>
+              <strong>{calloutLabels[block.variant]}:</strong> <InlineText text={block.text} />
+            </aside>
+          );
+        }
+        if (block.type === "code") {
+          return (
+            <pre key={index} className="bg-gray-900 text-gray-100 rounded-lg p-4 mb-4 overflow-x-auto text-sm" data-testid="code-block">
+              <code>{block.text}</code>
+            </pre>
+          );
+        }
+        if (block.type === "table") {
+          const [header = [], ...rows] = block.rows;
+          return (
+            <div key={index} className="overflow-x-auto mb-4">
+              <table className="min-w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {header.map((cell, cellIndex) => (
+                      <th key={cellIndex} className="px-3 py-2 text-left font-semibold border-b border-gray-200"><InlineText text={cell} /></th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((cells, rowIndex) => (
+                    <tr key={rowIndex} className="border-b border-gray-100">
+                      {cells.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="px-3 py-2"><InlineText text={cell} /></td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        }
+        return (
+          <p key={index} className="mb-4">
+            <InlineText text={block.text} />
+          </p>
+        );
+      })}
+    </article>
+  );
+}
@@ -13,6 +13,10 @@ export default function Navbar() {
     { href: "/title-case", label: "Title Case" },
     { href: "/keyword-density", label: "Keyword Density" },
     { href: "/seo-title-generator", label: "SEO Title Generator" },
+    { href: "/blog-outline", label: "Blog Outline" },
+    { href: "/blog-post-writer", label: "Blog Writer" },
+    { href: "/article-writer", label: "Article Writer" },
+    { href: "/content-audit", label: "Content Audit" },
   ];
 
   return (
@@ -28,7 +32,7 @@ export default function Navbar() {
           
           {/* Desktop Navigation */}
           <div className="hidden md:block">
-            <div className="ml-10 flex items-baseline space-x-8">
+            <div className="ml-10 flex items-baseline space-x-4">
               {navItems.map((item) => (
                 <Link
                   key={item.href}
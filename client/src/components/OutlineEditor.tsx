@@ -0,0 +1,290 @@
+import { useState, type DragEvent } from "react";
+import { GripVertical, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { BlogOutline } from "@shared/schema";
+
+// Rows carry stable ids so inputs keep focus and state while they are dragged
+export interface EditableSubsection {
+  id: string;
+  text: string;
+}
+
+export interface EditableSection {
+  id: string;
+  heading: string;
+  level: number;
+  subsections: EditableSubsection[];
+}
+
+export interface EditableOutline extends Omit<BlogOutline, "sections"> {
+  sections: EditableSection[];
+}
+
+interface DragItem {
+  sectionId: string;
+  subsectionId?: string;
+}
+
+let nextId = 0;
+const createId = () => `outline-node-${nextId++}`;
+
+export function toEditableOutline(outline: BlogOutline): EditableOutline {
+  return {
+    ...outline,
+    sections: outline.sections.map(section => ({
+      id: createId(),
+      heading: section.heading,
+      level: section.level,
+      subsections: (section.subsections || []).map(text => ({ id: createId(), text })),
+    })),
+  };
+}
+
+// Blank headings and subsections are dropped rather than sent to the writer
+export function fromEditableOutline(outline: EditableOutline): BlogOutline {
+  return {
+    ...outline,
+    title: outline.title.trim(),
+    sections: outline.sections
+      .filter(section => section.heading.trim())
+      .map(section => {
+        const subsections = section.subsections.map(sub => sub.text.trim()).filter(Boolean);
+        return {
+          heading: section.heading.trim(),
+          level: section.level,
+          ...(subsections.length > 0 ? { subsections } : {}),
+        };
+      }),
+  };
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+interface OutlineEditorProps {
+  value: EditableOutline;
+  onChange: (outline: EditableOutline) => void;
+  // Hide the title field when the page already has one
+  showTitle?: boolean;
+}
+
+export default function OutlineEditor({ value, onChange, showTitle = true }: OutlineEditorProps) {
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const setSections = (sections: EditableSection[]) => onChange({ ...value, sections });
+
+  const updateSection = (sectionId: string, update: (section: EditableSection) => EditableSection) => {
+    setSections(value.sections.map(section => section.id === sectionId ? update(section) : section));
+  };
+
+  const addSection = () => {
+    setSections([...value.sections, { id: createId(), heading: "", level: 2, subsections: [] }]);
+  };
+
+  const addSubsection = (sectionId: string) => {
+    updateSection(sectionId, section => ({
+      ...section,
+      subsections: [...section.subsections, { id: createId(), text: "" }],
+    }));
+  };
+
+  const renameSubsection = (sectionId: string, subsectionId: string, text: string) => {
+    updateSection(sectionId, section => ({
+      ...section,
+      subsections: section.subsections.map(sub => sub.id === subsectionId ? { ...sub, text } : sub),
+    }));
+  };
+
+  const deleteSubsection = (sectionId: string, subsectionId: string) => {
+    updateSection(sectionId, section => ({
+      ...section,
+      subsections: section.subsections.filter(sub => sub.id !== subsectionId),
+    }));
+  };
+
+  // A dragged section takes the place of the row it is dropped on. A dragged
+  // subsection does the same among subsections, or joins the end of a section
+  // when dropped on its heading, so it can move between sections.
+  const drop = (target: DragItem) => {
+    if (!dragging) return;
+    const sections = value.sections;
+    const fromSection = sections.findIndex(section => section.id === dragging.sectionId);
+    const toSection = sections.findIndex(section => section.id === target.sectionId);
+    if (fromSection === -1 || toSection === -1) return;
+
+    if (!dragging.subsectionId) {
+      if (fromSection !== toSection) setSections(moveItem(sections, fromSection, toSection));
+      return;
+    }
+
+    const moved = sections[fromSection].subsections.find(sub => sub.id === dragging.subsectionId);
+    if (!moved || moved.id === target.subsectionId) return;
+
+    const next = sections.map(section => ({
+      ...section,
+      subsections: section.subsections.filter(sub => sub.id !== moved.id),
+    }));
+    const destination = next[toSection].subsections;
+    const index = target.subsectionId
+      ? sections[toSection].subsections.findIndex(sub => sub.id === target.subsectionId)
+      : destination.length;
+    destination.splice(Math.min(index, destination.length), 0, moved);
+    setSections(next);
+  };
+
+  const dragProps = (item: DragItem) => ({
+    draggable: true,
+    onDragStart: (event: DragEvent) => {
+      event.stopPropagation();
+      event.dataTransfer.effectAllowed = "move";
+      // Firefox will not start a drag without data
+      event.dataTransfer.setData("text/plain", item.subsectionId || item.sectionId);
+      setDragging(item);
+    },
+    onDragEnd: () => {
+      setDragging(null);
+      setDropTarget(null);
+    },
+  });
+
+  const dropProps = (item: DragItem) => ({
+    onDragOver: (event: DragEvent) => {
+      if (!dragging) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTarget(item.subsectionId || item.sectionId);
+    },
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      drop(item);
+      setDragging(null);
+      setDropTarget(null);
+    },
+  });
+
+  const rowClass = (id: string) =>
+    dropTarget === id ? "ring-2 ring-primary-500 bg-primary-50" : "";
+
+  return (
+    <div className="space-y-4" data-testid="outline-editor">
+      {showTitle && (
+        <div>
+          <label htmlFor="outline-title" className="text-sm font-medium text-gray-700">Post Title</label>
+          <Input
+            id="outline-title"
+            value={value.title}
+            onChange={(e) => onChange({ ...value, title: e.target.value })}
+            data-testid="input-outline-title"
+          />
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500">
+        Drag the handles to reorder sections and subsections. Drop a subsection on another section's heading to move it there.
+      </p>
+
+      <ol className="space-y-3" data-testid="list-outline">
+        {value.sections.map((section, index) => (
+          <li
+            key={section.id}
+            className={`border border-gray-200 rounded-lg p-3 transition-colors ${dragging?.sectionId === section.id && !dragging.subsectionId ? "opacity-50" : ""}`}
+            data-testid={`outline-section-${index}`}
+          >
+            <div
+              className={`flex items-center gap-2 rounded-md ${rowClass(section.id)}`}
+              {...dropProps({ sectionId: section.id })}
+            >
+              <span
+                className="cursor-grab text-gray-400 hover:text-gray-600"
+                aria-label={`Drag section ${index + 1}`}
+                {...dragProps({ sectionId: section.id })}
+                data-testid={`handle-section-${index}`}
+              >
+                <GripVertical className="h-4 w-4" />
+              </span>
+              <span className="text-xs font-mono text-gray-400 w-6">H{section.level}</span>
+              <Input
+                value={section.heading}
+                placeholder="Section heading"
+                onChange={(e) => updateSection(section.id, current => ({ ...current, heading: e.target.value }))}
+                className="font-medium"
+                data-testid={`input-section-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => addSubsection(section.id)}
+                aria-label="Add subsection"
+                data-testid={`button-add-subsection-${index}`}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSections(value.sections.filter(current => current.id !== section.id))}
+                aria-label="Delete section"
+                data-testid={`button-delete-section-${index}`}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+
+            {section.subsections.length > 0 && (
+              <ul className="mt-2 ml-8 space-y-2">
+                {section.subsections.map((subsection, subIndex) => (
+                  <li
+                    key={subsection.id}
+                    className={`flex items-center gap-2 rounded-md ${rowClass(subsection.id)} ${dragging?.subsectionId === subsection.id ? "opacity-50" : ""}`}
+                    {...dropProps({ sectionId: section.id, subsectionId: subsection.id })}
+                    data-testid={`outline-subsection-${index}-${subIndex}`}
+                  >
+                    <span
+                      className="cursor-grab text-gray-400 hover:text-gray-600"
+                      aria-label={`Drag subsection ${subIndex + 1}`}
+                      {...dragProps({ sectionId: section.id, subsectionId: subsection.id })}
+                    >
+                      <GripVertical className="h-4 w-4" />
+                    </span>
+                    <span className="text-xs font-mono text-gray-400 w-6">H{section.level + 1}</span>
+                    <Input
+                      value={subsection.text}
+                      placeholder="Subsection heading"
+                      onChange={(e) => renameSubsection(section.id, subsection.id, e.target.value)}
+                      className="text-sm"
+                      data-testid={`input-subsection-${index}-${subIndex}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteSubsection(section.id, subsection.id)}
+                      aria-label="Delete subsection"
+                      data-testid={`button-delete-subsection-${index}-${subIndex}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <Button type="button" variant="outline" size="sm" onClick={addSection} data-testid="button-add-section">
+        <Plus className="h-4 w-4 mr-1" />
+        Add Section
+      </Button>
+    </div>
+  );
+}
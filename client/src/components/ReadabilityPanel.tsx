@@ -0,0 +1,98 @@
+import type { ReactNode } from "react";
+import { BookOpen } from "lucide-react";
+import { LONG_SENTENCE_WORDS, READING_LEVEL_LABELS } from "@shared/analysis";
+import type { Readability } from "@shared/schema";
+
+interface ReadabilityPanelProps {
+  readability: Readability;
+  // Extra rows for the stats list, e.g. paragraph counts
+  children?: ReactNode;
+}
+
+function getEaseColor(ease: number) {
+  if (ease >= 60) return "text-green-600";
+  if (ease >= 30) return "text-orange-600";
+  return "text-red-600";
+}
+
+// The sentence with its passive phrase marked
+function PassiveSentence({ text, phrase }: { text: string; phrase: string }) {
+  const index = text.indexOf(phrase);
+  if (index < 0) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="bg-orange-100 text-orange-900 rounded px-0.5">{phrase}</mark>
+      {text.slice(index + phrase.length)}
+    </>
+  );
+}
+
+// Readability formulas, with the long and passive sentences worth rewriting
+export default function ReadabilityPanel({ readability, children }: ReadabilityPanelProps) {
+  const hidden = (shown: number, total: number) => total > shown && (
+    <li className="text-gray-500">and {total - shown} more</li>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-readability">
+      <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+        <BookOpen className="h-4 w-4 mr-2 text-primary-600" />
+        Readability
+      </h3>
+      <div className="flex items-baseline gap-2">
+        <span className={`text-2xl font-bold ${getEaseColor(readability.fleschReadingEase)}`} data-testid="text-reading-ease">
+          {readability.fleschReadingEase}
+        </span>
+        <span className="text-sm text-gray-500" data-testid="text-reading-level">
+          {READING_LEVEL_LABELS[readability.readingLevel]} (Flesch reading ease)
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 gap-2 text-sm text-gray-600 mt-4">
+        <dt>Flesch-Kincaid grade</dt>
+        <dd className="text-right" data-testid="text-flesch-kincaid">{readability.fleschKincaidGrade}</dd>
+        <dt>Gunning Fog</dt>
+        <dd className="text-right" data-testid="text-gunning-fog">{readability.gunningFog}</dd>
+        <dt>SMOG</dt>
+        <dd className="text-right" data-testid="text-smog">{readability.smogIndex}</dd>
+        <dt>Avg. sentence</dt>
+        <dd className="text-right" data-testid="text-sentence-length">{readability.averageSentenceLength} words</dd>
+        <dt>Syllables per word</dt>
+        <dd className="text-right">{readability.averageSyllablesPerWord}</dd>
+        {children}
+      </dl>
+
+      {readability.longSentenceCount > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">
+            Long sentences ({readability.longSentenceCount})
+            <span className="font-normal text-gray-500"> over {LONG_SENTENCE_WORDS} words</span>
+          </h4>
+          <ul className="space-y-2 text-xs text-gray-700 max-h-64 overflow-y-auto" data-testid="list-long-sentences">
+            {readability.longSentences.map((sentence, index) => (
+              <li key={index}>
+                <mark className="bg-yellow-100 text-gray-900 rounded px-0.5">{sentence.text}</mark>
+                <span className="text-gray-500 whitespace-nowrap"> ({sentence.wordCount} words)</span>
+              </li>
+            ))}
+            {hidden(readability.longSentences.length, readability.longSentenceCount)}
+          </ul>
+        </div>
+      )}
+
+      {readability.passiveSentenceCount > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Passive voice ({readability.passiveSentenceCount})</h4>
+          <ul className="space-y-2 text-xs text-gray-700 max-h-64 overflow-y-auto" data-testid="list-passive-sentences">
+            {readability.passiveSentences.map((sentence, index) => (
+              <li key={index}>
+                <PassiveSentence text={sentence.text} phrase={sentence.phrase} />
+              </li>
+            ))}
+            {hidden(readability.passiveSentences.length, readability.passiveSentenceCount)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { CheckCircle2, Lightbulb, XCircle } from "lucide-react";
+import type { SeoRuleResult, SeoRuleSeverity } from "@shared/schema";
+
+interface SeoScorePanelProps {
+  score: number;
+  rules: SeoRuleResult[];
+}
+
+const severityColors: Record<SeoRuleSeverity, string> = {
+  error: "text-red-600",
+  warning: "text-orange-600",
+  info: "text-gray-400",
+};
+
+export function getScoreColor(score: number) {
+  if (score >= 80) return "text-green-600";
+  if (score >= 60) return "text-orange-600";
+  return "text-red-600";
+}
+
+export function getScoreBarColor(score: number) {
+  if (score >= 80) return "bg-green-500";
+  if (score >= 60) return "bg-orange-500";
+  return "bg-red-500";
+}
+
+// The SEO score out of 100 with each rule's outcome and what it contributed
+export default function SeoScorePanel({ score, rules }: SeoScorePanelProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-seo-score">
+      <h3 className="font-semibold text-gray-900 mb-3">SEO Score</h3>
+      <div className={`text-4xl font-bold ${getScoreColor(score)}`} data-testid="text-seo-score">
+        {score}<span className="text-lg text-gray-400">/100</span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden mt-3">
+        <div className={`h-full ${getScoreBarColor(score)}`} style={{ width: `${score}%` }} />
+      </div>
+      <div className="mt-4">
+        <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+          <Lightbulb className="h-4 w-4 mr-1 text-yellow-500" />
+          Rule Breakdown
+        </h4>
+        <ul className="text-sm space-y-2" data-testid="list-seo-rules">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-start" data-testid={`seo-rule-${rule.id}`}>
+              {rule.passed
+                ? <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-green-600" />
+                : <XCircle className={`h-4 w-4 mr-2 mt-0.5 shrink-0 ${severityColors[rule.severity]}`} />}
+              <div className="min-w-0">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium text-gray-900">{rule.label}</span>
+                  <span className="text-gray-500 whitespace-nowrap">{rule.passed ? `+${rule.weight}` : `0 / ${rule.weight}`}</span>
+                </div>
+                <div className="text-xs text-gray-500">{rule.value.toLocaleString()} (target: {rule.target})</div>
+                {!rule.passed && <div className="text-xs text-gray-600 mt-0.5">{rule.suggestion}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Monitor, Smartphone } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { SerpPreviewRequest, SerpPreviewResponse } from "@shared/schema";
+
+interface SerpPreviewProps {
+  title: string;
+  description?: string;
+  url?: string;
+  // A preview the caller already has; skips the request
+  preview?: SerpPreviewResponse;
+}
+
+type SerpLine = SerpPreviewResponse["desktop"]["title"];
+
+function WidthMeter({ label, line }: { label: string; line: SerpLine }) {
+  const percent = Math.min(100, Math.round((line.width / line.maxWidth) * 100));
+  return (
+    <div className="text-xs">
+      <div className="flex justify-between mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className={line.truncated ? "text-red-600 font-medium" : "text-gray-600"}>
+          {line.truncated ? "Truncated" : `${line.width} / ${line.maxWidth} px`}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${line.truncated ? "bg-red-500" : percent > 90 ? "bg-yellow-500" : "bg-green-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Desktop and mobile Google result snippets with the title and description cut
+// where Google would cut them, measured in pixels by /api/serp-preview.
+export default function SerpPreview({ title, description = "", url, preview: initialPreview }: SerpPreviewProps) {
+  const { data: fetchedPreview } = useQuery<SerpPreviewResponse>({
+    queryKey: ["/api/serp-preview", title, description, url],
+    queryFn: async () => {
+      const request: SerpPreviewRequest = { title, description, url };
+      const response = await apiRequest("POST", "/api/serp-preview", request);
+      return response.json();
+    },
+    enabled: !initialPreview && title.trim().length > 0,
+  });
+  const preview = initialPreview || fetchedPreview;
+
+  if (!preview) return null;
+
+  const devices = [
+    { key: "desktop" as const, label: "Desktop", icon: Monitor, width: "max-w-[600px]" },
+    { key: "mobile" as const, label: "Mobile", icon: Smartphone, width: "max-w-[360px]" },
+  ];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 bg-white" data-testid="serp-preview">
+      <h4 className="font-medium text-gray-900 mb-4">Google Search Preview</h4>
+      <div className="space-y-6">
+        {devices.map(({ key, label, icon: Icon, width }) => {
+          const snippet = preview[key];
+          return (
+            <div key={key} data-testid={`serp-preview-${key}`}>
+              <div className="flex items-center text-sm text-gray-500 mb-2">
+                <Icon className="h-4 w-4 mr-1" />
+                {label}
+              </div>
+              <div className={`${width} ${key === "mobile" ? "border border-gray-200 rounded-xl p-4 shadow-sm" : ""}`} style={{ fontFamily: "Arial, sans-serif" }}>
+                <p className="text-sm text-[#202124] truncate">{preview.displayUrl}</p>
+                <p className="text-xl leading-snug text-[#1a0dab] hover:underline cursor-pointer" data-testid={`text-serp-title-${key}`}>
+                  {snippet.title.text}
+                </p>
+                {snippet.description.text && (
+                  <p className="text-sm leading-relaxed text-[#4d5156] mt-1" data-testid={`text-serp-description-${key}`}>
+                    {snippet.description.text}
+                  </p>
+                )}
+              </div>
+              <div className={`${width} grid grid-cols-2 gap-4 mt-3`}>
+                <WidthMeter label="Title width" line={snippet.title} />
+                {snippet.description.text && <WidthMeter label="Description width" line={snippet.description} />}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
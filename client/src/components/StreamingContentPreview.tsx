@@ -0,0 +1,46 @@
+import { Loader2, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import MarkdownPreview from "@/components/MarkdownPreview";
+import type { ContentStreamStatus } from "@/hooks/use-content-stream";
+import type { ContentStreamSection, ContentStreamStart } from "@shared/schema";
+
+interface StreamingContentPreviewProps {
+  plan: ContentStreamStart | null;
+  sections: ContentStreamSection[];
+  status: ContentStreamStatus;
+  onCancel: () => void;
+}
+
+// Shows a post while it is being written, one section at a time
+export default function StreamingContentPreview({ plan, sections, status, onCancel }: StreamingContentPreviewProps) {
+  const total = plan?.structure.length || 0;
+  const next = plan?.structure[sections.length];
+  const isStreaming = status === "streaming";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="streaming-preview">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{plan?.title || "Preparing..."}</h2>
+          <p className="flex items-center text-sm text-gray-500 mt-2" data-testid="text-stream-status">
+            {isStreaming && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isStreaming && (next ? `Writing "${next.heading}" (${sections.length + 1} of ${total})` : "Finishing up...")}
+            {status === "cancelled" && `Cancelled after ${sections.length} of ${total} sections`}
+            {status === "error" && `Stopped after ${sections.length} of ${total} sections`}
+          </p>
+        </div>
+        {isStreaming && (
+          <Button variant="outline" size="sm" onClick={onCancel} data-testid="button-cancel-stream">
+            <Square className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {total > 0 && <Progress value={(sections.length / total) * 100} className="h-2 mb-6" />}
+
+      <MarkdownPreview blocks={sections.flatMap(section => section.document)} />
+    </div>
+  );
+}
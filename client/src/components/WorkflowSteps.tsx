@@ -0,0 +1,31 @@
+import { Link } from "wouter";
+import { ChevronRight } from "lucide-react";
+
+const steps = [
+  { href: "/blog-outline", label: "Outline" },
+  { href: "/blog-post-writer", label: "Write" },
+  { href: "/blog-publisher", label: "Publish" },
+];
+
+// Breadcrumb for the outline → post → publisher workflow
+export default function WorkflowSteps({ current }: { current: number }) {
+  return (
+    <nav className="flex items-center gap-2 text-sm mb-6" aria-label="Workflow" data-testid="workflow-steps">
+      {steps.map((step, index) => (
+        <div key={step.href} className="flex items-center gap-2">
+          {index > 0 && <ChevronRight className="h-4 w-4 text-gray-400" />}
+          <Link
+            href={step.href}
+            className={`flex items-center gap-2 ${index === current ? "text-primary-700 font-semibold" : "text-gray-500 hover:text-gray-700"}`}
+            aria-current={index === current ? "step" : undefined}
+          >
+            <span className={`flex h-6 w-6 items-center justify-center rounded-full text-xs ${index === current ? "bg-primary-600 text-white" : index < current ? "bg-primary-50 text-primary-700" : "bg-gray-200 text-gray-600"}`}>
+              {index + 1}
+            </span>
+            {step.label}
+          </Link>
+        </div>
+      ))}
+    </nav>
+  );
+}
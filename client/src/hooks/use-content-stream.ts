@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { streamRequest } from "@/lib/queryClient";
+import type { ContentStreamSection, ContentStreamStart } from "@shared/schema";
+
+export type ContentStreamStatus = "idle" | "streaming" | "done" | "cancelled" | "error";
+
+interface ContentStreamOptions<TResult> {
+  onDone: (result: TResult) => void;
+  onError: (error: Error) => void;
+}
+
+// Runs one of the streaming writer endpoints, collecting sections as they
+// arrive so the page can render the post while it is still being written
+export function useContentStream<TResult>(url: string, options: ContentStreamOptions<TResult>) {
+  const [plan, setPlan] = useState<ContentStreamStart | null>(null);
+  const [sections, setSections] = useState<ContentStreamSection[]>([]);
+  const [status, setStatus] = useState<ContentStreamStatus>("idle");
+  const controllerRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const start = useCallback(async (data: unknown) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setPlan(null);
+    setSections([]);
+    setStatus("streaming");
+
+    try {
+      let finished = false;
+      for await (const { event, data: payload } of streamRequest(url, data, controller.signal)) {
+        const parsed = JSON.parse(payload);
+        if (event === "start") {
+          setPlan(parsed);
+        } else if (event === "section") {
+          setSections(current => [...current, parsed]);
+        } else if (event === "done") {
+          finished = true;
+          setStatus("done");
+          optionsRef.current.onDone(parsed as TResult);
+        } else if (event === "error") {
+          throw new Error(parsed.message);
+        }
+      }
+      // The server always ends with "done" or "error"; anything else is a dropped connection
+      if (!finished) {
+        throw new Error("Connection closed before the content was finished");
+      }
+    } catch (error) {
+      // A newer run or a reset has taken over; leave its state alone
+      if (controllerRef.current !== controller) return;
+      if (controller.signal.aborted) {
+        setStatus("cancelled");
+      } else {
+        setStatus("error");
+        optionsRef.current.onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  }, [url]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    const controller = controllerRef.current;
+    controllerRef.current = null;
+    controller?.abort();
+    setPlan(null);
+    setSections([]);
+    setStatus("idle");
+  }, []);
+
+  // Leaving the page closes the connection so the server stops writing
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { start, cancel, reset, plan, sections, status, isStreaming: status === "streaming" };
+}
@@ -0,0 +1,66 @@
+import { downloadFile } from "./download";
+
+// Minimal RFC 4180 CSV reading and writing for the bulk tools.
+// Handles quoted fields, escaped quotes ("") and line breaks inside quotes,
+// and the byte order mark Excel puts at the start of UTF-8 exports.
+
+export function parseCSV(csv: string): string[][] {
+  const text = csv.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank rows inside the file are kept so row numbers match the source; only
+  // the ones at the end, such as the line left by a trailing newline, are dropped
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell.trim().length === 0)) {
+    rows.pop();
+  }
+  return rows;
+}
+
+function escapeCSVField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(rows: (string | number | boolean)[][]): string {
+  return rows.map(row => row.map(escapeCSVField).join(",")).join("\n");
+}
+
+export function downloadCSV(filename: string, rows: (string | number | boolean)[][]) {
+  downloadFile(filename, toCSV(rows), 'text/csv;charset=utf-8;');
+}
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { blogOutlineSchema, contentBlockSchema, seedSchema, type ContentBlock } from "@shared/schema";
+
+// Passes work between the outline, post writer and publisher pages. Drafts
+// live in sessionStorage so a refresh keeps them, and are removed once read.
+
+const OUTLINE_KEY = "seo-toolbox:outline-draft";
+const PUBLISHER_KEY = "seo-toolbox:publisher-draft";
+
+// The outline's seed and audience travel with it so the post can reuse them
+const outlineDraftSchema = blogOutlineSchema.extend({
+  seed: seedSchema.optional(),
+  audience: z.string().optional(),
+});
+
+export type OutlineDraft = z.infer<typeof outlineDraftSchema>;
+
+export interface PublisherDraft {
+  title: string;
+  content: string;
+  metaDescription: string;
+  keywords: string;
+  // The generated blocks, used for export until the content is edited
+  document?: ContentBlock[];
+}
+
+function save(key: string, value: unknown) {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled; the next page simply starts empty
+  }
+}
+
+function take(key: string): unknown {
+  try {
+    const raw = sessionStorage.getItem(key);
+    sessionStorage.removeItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveOutlineDraft(draft: OutlineDraft) {
+  save(OUTLINE_KEY, draft);
+}
+
+export function takeOutlineDraft(): OutlineDraft | null {
+  const parsed = outlineDraftSchema.safeParse(take(OUTLINE_KEY));
+  return parsed.success ? parsed.data : null;
+}
+
+export function savePublisherDraft(draft: PublisherDraft) {
+  save(PUBLISHER_KEY, draft);
+}
+
+export function takePublisherDraft(): PublisherDraft | null {
+  const draft = take(PUBLISHER_KEY) as Partial<PublisherDraft> | null;
+  if (!draft || typeof draft.title !== "string" || typeof draft.content !== "string") {
+    return null;
+  }
+  return {
+    title: draft.title,
+    content: draft.content,
+    metaDescription: draft.metaDescription || "",
+    keywords: draft.keywords || "",
+    document: z.array(contentBlockSchema).safeParse(draft.document).data,
+  };
+}
@@ -0,0 +1,88 @@
+import { parseDocument } from "@shared/analysis";
+import type { CalloutVariant, ContentBlock } from "@shared/schema";
+
+// Helpers for previewing content. Generated posts arrive with their blocks
+// already parsed; pasted text goes through the same reader the server uses.
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+}
+
+export function extractHeadings(blocks: ContentBlock[]): MarkdownHeading[] {
+  return blocks
+    .filter((block): block is Extract<ContentBlock, { type: "heading" }> => block.type === "heading")
+    .map(({ level, text }) => ({ level, text }));
+}
+
+// Split "**bold** and plain" into runs so the preview can render <strong> without raw HTML
+export function splitBold(text: string): { text: string; bold: boolean }[] {
+  return text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(part => part.length > 0)
+    .map(part => part.startsWith("**") && part.endsWith("**")
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part, bold: false });
+}
+
+export function stripMarkdown(markdown: string): string {
+  return parseDocument(markdown)
+    .map(block => {
+      switch (block.type) {
+        case "list":
+          return block.items.map(item => `- ${item}`).join("\n");
+        case "table":
+          return block.rows.map(row => row.join("\t")).join("\n");
+        default:
+          return block.text;
+      }
+    })
+    .join("\n\n")
+    .replace(/\*\*([^*]+)\*\*/g, "$1");
+}
+
+const CALLOUT_LABELS: Record<CalloutVariant, string> = {
+  tip: "Tip",
+  note: "Note",
+  warning: "Warning",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function inlineHtml(text: string): string {
+  return splitBold(text)
+    .map(run => run.bold ? `<strong>${escapeHtml(run.text)}</strong>` : escapeHtml(run.text))
+    .join("");
+}
+
+// Blocks as HTML for the publisher's export; callouts carry a
+// "callout callout-<variant>" class for styling
+export function documentToHtml(blocks: ContentBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case "heading": {
+        const level = Math.min(block.level, 6);
+        return `<h${level}>${inlineHtml(block.text)}</h${level}>`;
+      }
+      case "list": {
+        const tag = block.ordered ? "ol" : "ul";
+        return `<${tag}>\n${block.items.map(item => `  <li>${inlineHtml(item)}</li>`).join("\n")}\n</${tag}>`;
+      }
+      case "callout":
+        return `<aside class="callout callout-${block.variant}"><strong>${CALLOUT_LABELS[block.variant]}:</strong> ${inlineHtml(block.text)}</aside>`;
+      case "code": {
+        const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : "";
+        return `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`;
+      }
+      case "table": {
+        const [header = [], ...rows] = block.rows;
+        const row = (cells: string[], tag: "th" | "td") => `    <tr>${cells.map(cell => `<${tag}>${inlineHtml(cell)}</${tag}>`).join("")}</tr>`;
+        return `<table>\n  <thead>\n${row(header, "th")}\n  </thead>\n  <tbody>\n${rows.map(cells => row(cells, "td")).join("\n")}\n  </tbody>\n</table>`;
+      }
+      default:
+        return `<p>${inlineHtml(block.text)}</p>`;
+    }
+  }).join("\n");
+}
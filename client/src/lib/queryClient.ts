@@ -23,6 +23,62 @@ export async function apiRequest(
   return res;
 }
 
+export interface ServerEvent {
+  event: string;
+  data: string;
+}
+
+// POST JSON and yield the Server-Sent Events in the response as they arrive.
+// Abort the signal to stop reading and close the connection.
+export async function* streamRequest(
+  url: string,
+  data: unknown,
+  signal?: AbortSignal,
+): AsyncGenerator<ServerEvent> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = "message";
+        const dataLines: string[] = [];
+        frame.split("\n").forEach(line => {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+        });
+        if (dataLines.length > 0) {
+          yield { event, data: dataLines.join("\n") };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Newspaper } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { useContentStream } from "@/hooks/use-content-stream";
+import GeneratedContentResult from "@/components/GeneratedContentResult";
+import StreamingContentPreview from "@/components/StreamingContentPreview";
+import { articleRequestSchema, type ArticleRequest, type ArticleResponse } from "@shared/schema";
+
+type ArticleStyle = ArticleRequest["style"];
+type ArticleLength = ArticleRequest["length"];
+
+const styleLabels: Record<ArticleStyle, string> = {
+  "how-to": "How-To Guide",
+  listicle: "Listicle",
+  news: "News",
+  opinion: "Opinion",
+  research: "Research",
+};
+
+const lengthLabels: Record<ArticleLength, string> = {
+  short: "Short (~600 words)",
+  medium: "Medium (~1,200 words)",
+  long: "Long (~2,000 words)",
+};
+
+export default function ArticleWriterTool() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ArticleResponse | null>(null);
+
+  const form = useForm<ArticleRequest>({
+    resolver: zodResolver(articleRequestSchema),
+    defaultValues: {
+      topic: "",
+      targetKeywords: "",
+      audience: "",
+      style: "how-to",
+      length: "medium",
+      includeIntro: true,
+      includeConclusion: true,
+    },
+  });
+
+  const stream = useContentStream<ArticleResponse>("/api/article/stream", {
+    onDone: (data) => {
+      setResult(data);
+      toast({
+        title: "Article written!",
+        description: `${data.wordCount.toLocaleString()} words with an SEO score of ${data.seoScore}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to write article. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ArticleRequest) => {
+    setResult(null);
+    stream.start(data);
+  };
+
+  const clearForm = () => {
+    stream.reset();
+    form.reset();
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Article Writer</h1>
+          <p className="text-gray-600">Generate how-to guides, listicles, news, opinion and research articles optimized for search</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 mb-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="topic">Article Topic</Label>
+              <Input
+                id="topic"
+                placeholder="Enter the topic of your article..."
+                {...form.register("topic")}
+                data-testid="input-topic"
+              />
+              {form.formState.errors.topic && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.topic.message}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">Example: "Remote Work Productivity"</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="targetKeywords">Target Keywords (Optional)</Label>
+                <Input
+                  id="targetKeywords"
+                  placeholder="e.g., email marketing, newsletters"
+                  {...form.register("targetKeywords")}
+                  data-testid="input-target-keywords"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Input
+                  id="audience"
+                  placeholder="e.g., small business owners"
+                  {...form.register("audience")}
+                  data-testid="input-audience"
+                />
+                <p className="text-sm text-gray-500 mt-1">Matched to beginners, practitioners, executives, developers or students</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="style">Article Style</Label>
+                <Select value={form.watch("style")} onValueChange={(value) => form.setValue("style", value as ArticleStyle)}>
+                  <SelectTrigger id="style" data-testid="select-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(styleLabels) as ArticleStyle[]).map((style) => (
+                      <SelectItem key={style} value={style}>{styleLabels[style]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="length">Length</Label>
+                <Select value={form.watch("length")} onValueChange={(value) => form.setValue("length", value as ArticleLength)}>
+                  <SelectTrigger id="length" data-testid="select-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(lengthLabels) as ArticleLength[]).map((length) => (
+                      <SelectItem key={length} value={length}>{lengthLabels[length]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="seed">Seed (Optional)</Label>
+                <Input
+                  id="seed"
+                  type="number"
+                  min={0}
+                  placeholder="Random"
+                  {...form.register("seed", { setValueAs: (value) => value === "" || value === undefined ? undefined : Number(value) })}
+                  data-testid="input-seed"
+                />
+                {form.formState.errors.seed && (
+                  <p className="text-sm text-red-600 mt-1">{form.formState.errors.seed.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <Label htmlFor="includeIntro">Include Introduction</Label>
+                  <p className="text-sm text-gray-500">Open with a section that sets up the topic</p>
+                </div>
+                <Switch
+                  id="includeIntro"
+                  checked={form.watch("includeIntro")}
+                  onCheckedChange={(checked) => form.setValue("includeIntro", checked)}
+                  data-testid="switch-include-intro"
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <Label htmlFor="includeConclusion">Include Conclusion</Label>
+                  <p className="text-sm text-gray-500">Close with key takeaways and next steps</p>
+                </div>
+                <Switch
+                  id="includeConclusion"
+                  checked={form.watch("includeConclusion")}
+                  onCheckedChange={(checked) => form.setValue("includeConclusion", checked)}
+                  data-testid="switch-include-conclusion"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={stream.isStreaming}
+                className="bg-primary-600 hover:bg-primary-700"
+                data-testid="button-generate"
+              >
+                <Newspaper className="h-4 w-4 mr-2" />
+                {stream.isStreaming ? "Writing..." : "Write Article"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        {result && <GeneratedContentResult result={result} structure={result.structure} />}
+        {!result && stream.status !== "idle" && (
+          <StreamingContentPreview plan={stream.plan} sections={stream.sections} status={stream.status} onCancel={stream.cancel} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, ListTree, Copy, Download, Clock, FileText, PenLine, Search, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFile, slugify } from "@/lib/download";
+import { saveOutlineDraft } from "@/lib/handoff";
+import OutlineEditor, { fromEditableOutline, toEditableOutline, type EditableOutline } from "@/components/OutlineEditor";
+import WorkflowSteps from "@/components/WorkflowSteps";
+import { AUDIENCE_PROFILES, INTENT_LABELS } from "@shared/analysis";
+import { blogOutlineRequestSchema, type BlogOutline, type BlogOutlineRequest, type BlogOutlineResponse } from "@shared/schema";
+
+type OutlineLength = BlogOutlineRequest["length"];
+
+const lengthLabels: Record<OutlineLength, string> = {
+  short: "Short (~1,200 words)",
+  medium: "Medium (~2,500 words)",
+  long: "Long (~4,000 words)",
+};
+
+function outlineToMarkdown(outline: BlogOutline): string {
+  const lines = [`# ${outline.title}`, ""];
+  outline.sections.forEach(section => {
+    lines.push(`${"#".repeat(section.level)} ${section.heading}`);
+    (section.subsections || []).forEach(subsection => lines.push(`- ${subsection}`));
+    lines.push("");
+  });
+  return lines.join("\n").trim();
+}
+
+export default function BlogOutlineTool() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [result, setResult] = useState<BlogOutlineResponse | null>(null);
+  // The generated outline as the user has edited it
+  const [outline, setOutline] = useState<EditableOutline | null>(null);
+
+  const form = useForm<BlogOutlineRequest>({
+    resolver: zodResolver(blogOutlineRequestSchema),
+    defaultValues: {
+      topic: "",
+      audience: "",
+      length: "medium",
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (data: BlogOutlineRequest) => {
+      const response = await apiRequest("POST", "/api/blog-outline", data);
+      return response.json();
+    },
+    onSuccess: (data: BlogOutlineResponse) => {
+      setResult(data);
+      setOutline(toEditableOutline(data));
+      toast({
+        title: "Outline generated!",
+        description: `${data.sections.length} sections are ready to write.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to generate blog outline. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: BlogOutlineRequest) => {
+    generateMutation.mutate(data);
+  };
+
+  const editedOutline = outline ? fromEditableOutline(outline) : null;
+
+  const copyOutline = async () => {
+    if (!editedOutline) return;
+    try {
+      await navigator.clipboard.writeText(outlineToMarkdown(editedOutline));
+      toast({
+        title: "Copied!",
+        description: "Outline copied to clipboard as markdown.",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadOutline = (format: "md" | "json") => {
+    if (!result || !editedOutline) return;
+    const filename = `${slugify(editedOutline.title)}-outline.${format}`;
+    if (format === "md") {
+      downloadFile(filename, outlineToMarkdown(editedOutline), 'text/markdown;charset=utf-8;');
+    } else {
+      downloadFile(filename, JSON.stringify({ ...editedOutline, seed: result.seed }, null, 2), 'application/json');
+    }
+    toast({
+      title: "Download started",
+      description: `Outline downloaded as ${format === "md" ? "markdown" : "JSON"}`,
+    });
+  };
+
+  const writePost = () => {
+    if (!result || !editedOutline) return;
+    if (!editedOutline.title || editedOutline.sections.length === 0) {
+      toast({
+        title: "Outline incomplete",
+        description: "Give the post a title and at least one section heading.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveOutlineDraft({ ...editedOutline, seed: result.seed, audience: form.getValues("audience") || undefined });
+    navigate("/blog-post-writer");
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+    setOutline(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Blog Outline Generator</h1>
+          <p className="text-gray-600">Plan a well-structured post with sections and subsections before you write</p>
+        </div>
+
+        <WorkflowSteps current={0} />
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="topic">Blog Topic</Label>
+              <Input
+                id="topic"
+                placeholder="Enter the topic of your blog post..."
+                {...form.register("topic")}
+                data-testid="input-topic"
+              />
+              {form.formState.errors.topic && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.topic.message}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">Example: "How to start a vegetable garden"</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Input
+                  id="audience"
+                  placeholder="e.g., first-time gardeners"
+                  {...form.register("audience")}
+                  data-testid="input-audience"
+                />
+                <p className="text-sm text-gray-500 mt-1">Matched to beginners, practitioners, executives, developers or students</p>
+              </div>
+
+              <div>
+                <Label htmlFor="length">Post Length</Label>
+                <Select value={form.watch("length")} onValueChange={(value) => form.setValue("length", value as OutlineLength)}>
+                  <SelectTrigger id="length" data-testid="select-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(lengthLabels) as OutlineLength[]).map((length) => (
+                      <SelectItem key={length} value={length}>{lengthLabels[length]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="seed">Seed (Optional)</Label>
+              <Input
+                id="seed"
+                type="number"
+                min={0}
+                placeholder="Leave blank for a new variation each time"
+                {...form.register("seed", { setValueAs: (value) => value === "" || value === undefined ? undefined : Number(value) })}
+                data-testid="input-seed"
+              />
+              {form.formState.errors.seed && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.seed.message}</p>
+              )}
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={generateMutation.isPending}
+                className="bg-primary-600 hover:bg-primary-700"
+                data-testid="button-generate"
+              >
+                <ListTree className="h-4 w-4 mr-2" />
+                {generateMutation.isPending ? "Generating..." : "Generate Outline"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+
+          {result && outline && (
+            <div className="mt-8" data-testid="results-section">
+              <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900">Edit Your Outline</h3>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-1">
+                    <span className="flex items-center" data-testid="text-word-count">
+                      <FileText className="h-4 w-4 mr-1" />
+                      ~{result.estimatedWordCount.toLocaleString()} words
+                    </span>
+                    <span className="flex items-center" data-testid="text-reading-time">
+                      <Clock className="h-4 w-4 mr-1" />
+                      {result.estimatedReadingTime} min read
+                    </span>
+                    <span className="flex items-center" data-testid="text-audience-profile">
+                      <Users className="h-4 w-4 mr-1" />
+                      For {AUDIENCE_PROFILES[result.audienceProfile].label.toLowerCase()}
+                    </span>
+                    <span className="flex items-center" data-testid="text-intent" title="Search intent detected from the topic, which picks the outline template">
+                      <Search className="h-4 w-4 mr-1" />
+                      {INTENT_LABELS[result.intentAnalysis.intent]} intent ({Math.round(result.intentAnalysis.confidence * 100)}% confidence)
+                    </span>
+                    <span className="font-mono" data-testid="text-seed">Seed {result.seed}</span>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={copyOutline} data-testid="button-copy-outline">
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => downloadOutline("md")} data-testid="button-download-markdown">
+                    <Download className="h-4 w-4 mr-1" />
+                    .md
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => downloadOutline("json")} data-testid="button-download-json">
+                    <Download className="h-4 w-4 mr-1" />
+                    .json
+                  </Button>
+                </div>
+              </div>
+
+              <OutlineEditor value={outline} onChange={setOutline} />
+
+              <div className="flex justify-end mt-6 pt-6 border-t border-gray-200">
+                <Button onClick={writePost} className="bg-primary-600 hover:bg-primary-700" data-testid="button-write-post">
+                  <PenLine className="h-4 w-4 mr-2" />
+                  Write Post from Outline
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, PenLine, ListTree, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { useContentStream } from "@/hooks/use-content-stream";
+import { savePublisherDraft, takeOutlineDraft } from "@/lib/handoff";
+import GeneratedContentResult from "@/components/GeneratedContentResult";
+import StreamingContentPreview from "@/components/StreamingContentPreview";
+import OutlineEditor, { fromEditableOutline, toEditableOutline, type EditableOutline } from "@/components/OutlineEditor";
+import WorkflowSteps from "@/components/WorkflowSteps";
+import { blogPostRequestSchema, type BlogPostRequest, type BlogPostResponse, type Tone } from "@shared/schema";
+
+type PostLength = BlogPostRequest["length"];
+
+const toneLabels: Record<Tone, string> = {
+  professional: "Professional",
+  casual: "Casual",
+  friendly: "Friendly",
+  authoritative: "Authoritative",
+};
+
+const lengthLabels: Record<PostLength, string> = {
+  short: "Short (~800 words)",
+  medium: "Medium (~1,500 words)",
+  long: "Long (~2,500 words)",
+};
+
+export default function BlogPostWriterTool() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [result, setResult] = useState<BlogPostResponse | null>(null);
+  // Outline handed over from the outline page, if any
+  const [outline, setOutline] = useState<EditableOutline | null>(null);
+
+  const form = useForm<BlogPostRequest>({
+    resolver: zodResolver(blogPostRequestSchema),
+    defaultValues: {
+      title: "",
+      targetKeywords: "",
+      audience: "",
+      tone: "professional",
+      length: "medium",
+    },
+  });
+
+  useEffect(() => {
+    const draft = takeOutlineDraft();
+    if (!draft) return;
+    const { seed, audience, ...outlineDraft } = draft;
+    setOutline(toEditableOutline(outlineDraft));
+    form.setValue("title", outlineDraft.title);
+    if (seed !== undefined) form.setValue("seed", seed);
+    if (audience) form.setValue("audience", audience);
+  }, [form]);
+
+  const stream = useContentStream<BlogPostResponse>("/api/blog-post/stream", {
+    onDone: (data) => {
+      setResult(data);
+      toast({
+        title: "Blog post written!",
+        description: `${data.wordCount.toLocaleString()} words with an SEO score of ${data.seoScore}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to write blog post. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: BlogPostRequest) => {
+    setResult(null);
+    if (!outline) {
+      stream.start(data);
+      return;
+    }
+    const edited = fromEditableOutline(outline);
+    if (edited.sections.length === 0) {
+      toast({
+        title: "Outline is empty",
+        description: "Add a section heading or remove the outline to write without one.",
+        variant: "destructive",
+      });
+      return;
+    }
+    stream.start({ ...data, outline: { ...edited, title: data.title } });
+  };
+
+  const sendToPublisher = () => {
+    if (!result) return;
+    savePublisherDraft({
+      title: result.title,
+      content: result.content,
+      document: result.document,
+      metaDescription: result.metaDescription,
+      keywords: result.suggestedTags.join(", "),
+    });
+    navigate("/blog-publisher");
+  };
+
+  const clearForm = () => {
+    stream.reset();
+    form.reset();
+    setResult(null);
+    setOutline(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Blog Post Writer</h1>
+          <p className="text-gray-600">Write a complete, SEO-optimized blog post with a meta description and tags</p>
+        </div>
+
+        <WorkflowSteps current={1} />
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 mb-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="title">Post Title</Label>
+              <Input
+                id="title"
+                placeholder="Enter the title of your blog post..."
+                {...form.register("title")}
+                data-testid="input-title"
+              />
+              {form.formState.errors.title && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.title.message}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">Example: "10 Email Marketing Mistakes Small Businesses Make"</p>
+            </div>
+
+            {outline && (
+              <div className="border border-gray-200 bg-primary-50 rounded-lg p-4" data-testid="panel-outline">
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="flex items-center font-medium text-gray-900">
+                    <ListTree className="h-4 w-4 mr-2" />
+                    Writing from your outline
+                  </h3>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setOutline(null)} data-testid="button-remove-outline">
+                    <X className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </div>
+                <OutlineEditor value={outline} onChange={setOutline} showTitle={false} />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="targetKeywords">Target Keywords (Optional)</Label>
+                <Input
+                  id="targetKeywords"
+                  placeholder="e.g., email marketing, newsletters"
+                  {...form.register("targetKeywords")}
+                  data-testid="input-target-keywords"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Input
+                  id="audience"
+                  placeholder="e.g., small business owners"
+                  {...form.register("audience")}
+                  data-testid="input-audience"
+                />
+                <p className="text-sm text-gray-500 mt-1">Matched to beginners, practitioners, executives, developers or students</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="tone">Tone</Label>
+                <Select value={form.watch("tone")} onValueChange={(value) => form.setValue("tone", value as Tone)}>
+                  <SelectTrigger id="tone" data-testid="select-tone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(toneLabels) as Tone[]).map((tone) => (
+                      <SelectItem key={tone} value={tone}>{toneLabels[tone]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="length">Length</Label>
+                <Select value={form.watch("length")} onValueChange={(value) => form.setValue("length", value as PostLength)}>
+                  <SelectTrigger id="length" data-testid="select-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(lengthLabels) as PostLength[]).map((length) => (
+                      <SelectItem key={length} value={length}>{lengthLabels[length]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="seed">Seed (Optional)</Label>
+                <Input
+                  id="seed"
+                  type="number"
+                  min={0}
+                  placeholder="Random"
+                  {...form.register("seed", { setValueAs: (value) => value === "" || value === undefined ? undefined : Number(value) })}
+                  data-testid="input-seed"
+                />
+                {form.formState.errors.seed && (
+                  <p className="text-sm text-red-600 mt-1">{form.formState.errors.seed.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={stream.isStreaming}
+                className="bg-primary-600 hover:bg-primary-700"
+                data-testid="button-generate"
+              >
+                <PenLine className="h-4 w-4 mr-2" />
+                {stream.isStreaming ? "Writing..." : "Write Blog Post"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        {result && (
+          <GeneratedContentResult
+            result={result}
+            actions={
+              <Button size="sm" onClick={sendToPublisher} className="bg-primary-600 hover:bg-primary-700" data-testid="button-send-to-publisher">
+                <Send className="h-4 w-4 mr-1" />
+                Send to Publisher
+              </Button>
+            }
+          />
+        )}
+        {!result && stream.status !== "idle" && (
+          <StreamingContentPreview plan={stream.plan} sections={stream.sections} status={stream.status} onCancel={stream.cancel} />
+        )}
+      </div>
+    </div>
+  );
+}
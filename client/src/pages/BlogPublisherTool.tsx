@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "wouter";
 import { ArrowLeft, Upload, Download, Copy, Globe, FileText, Search, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,11 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { takePublisherDraft } from "@/lib/handoff";
+import { documentToHtml } from "@/lib/markdown";
+import { countWords, estimateReadingTime, parseDocument } from "@shared/analysis";
+import type { ContentBlock } from "@shared/schema";
+import WorkflowSteps from "@/components/WorkflowSteps";
 
 export default function BlogPublisherTool() {
   const [blogContent, setBlogContent] = useState("");
@@ -15,9 +20,31 @@ export default function BlogPublisherTool() {
   const [metaDescription, setMetaDescription] = useState("");
   const [keywords, setKeywords] = useState("");
   const [publishedUrl, setPublishedUrl] = useState("");
+  // Blocks that arrived with a generated post, and the content they describe
+  const [draftDocument, setDraftDocument] = useState<{ content: string; blocks: ContentBlock[] } | null>(null);
   const { toast } = useToast();
 
+  // Pick up a post sent over from the Blog Post Writer
+  useEffect(() => {
+    const draft = takePublisherDraft();
+    if (!draft) return;
+    setBlogTitle(draft.title);
+    setBlogContent(draft.content);
+    if (draft.document) {
+      setDraftDocument({ content: draft.content, blocks: draft.document });
+    }
+    setMetaDescription(draft.metaDescription);
+    setKeywords(draft.keywords);
+    toast({
+      title: "Post loaded",
+      description: "Your generated post is ready to export.",
+    });
+  }, [toast]);
+
   const generateHTML = () => {
+    // Pasted or edited content is read fresh; an untouched generated post
+    // keeps the blocks it came with
+    const blocks = draftDocument && draftDocument.content === blogContent ? draftDocument.blocks : parseDocument(blogContent);
     const htmlTemplate = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -88,6 +115,20 @@ export default function BlogPublisherTool() {
             font-size: 0.9em;
             color: #666;
         }
+        .callout {
+            border-left: 4px solid #3498db;
+            background: #f0f7fd;
+            padding: 10px 15px;
+            margin-bottom: 15px;
+        }
+        .callout-tip {
+            border-color: #27ae60;
+            background: #effaf3;
+        }
+        .callout-warning {
+            border-color: #e67e22;
+            background: #fdf5ec;
+        }
         .keywords {
             margin-top: 10px;
         }
@@ -105,7 +146,7 @@ export default function BlogPublisherTool() {
 <body>
     <div class="meta-info">
         <strong>Published:</strong> ${new Date().toLocaleDateString()}<br>
-        <strong>Reading Time:</strong> ${Math.ceil(blogContent.split(' ').length / 200)} minutes
+        <strong>Reading Time:</strong> ${estimateReadingTime(countWords(blogContent))} minutes
         <div class="keywords">
             <strong>Tags:</strong> 
             ${keywords.split(',').map(k => `<span class="keyword-tag">${k.trim()}</span>`).join('')}
@@ -114,7 +155,7 @@ export default function BlogPublisherTool() {
     
     <h1>${blogTitle}</h1>
     
-    ${blogContent.replace(/\n/g, '<br>').replace(/## (.*?)<br>/g, '<h2>$1</h2>').replace(/### (.*?)<br>/g, '<h3>$1</h3>')}
+    ${documentToHtml(blocks)}
     
     <div class="meta-info" style="margin-top: 40px;">
         <strong>About this article:</strong> This content was created using professional SEO tools to ensure optimal search engine visibility and user engagement.
@@ -209,6 +250,8 @@ export default function BlogPublisherTool() {
           </p>
         </div>
 
+        <WorkflowSteps current={2} />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Input Section */}
           <div className="space-y-6">
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { AlertTriangle, ArrowLeft, Check, ClipboardCheck, Clock, FileText, Heading, Info, Key, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import SeoScorePanel from "@/components/SeoScorePanel";
+import ReadabilityPanel from "@/components/ReadabilityPanel";
+import SerpPreview from "@/components/SerpPreview";
+import {
+  contentAuditRequestSchema,
+  type ContentAuditRequest,
+  type ContentAuditResponse,
+  type ContentFormat,
+  type SeoRuleSeverity,
+} from "@shared/schema";
+import { META_DESCRIPTION_MAX_LENGTH, META_DESCRIPTION_MIN_LENGTH } from "@shared/analysis";
+
+const formatLabels: Record<ContentFormat, string> = {
+  markdown: "Markdown",
+  html: "HTML",
+  text: "Plain text",
+};
+
+const issueIcons: Record<SeoRuleSeverity, { icon: typeof XCircle; color: string }> = {
+  error: { icon: XCircle, color: "text-red-600" },
+  warning: { icon: AlertTriangle, color: "text-orange-600" },
+  info: { icon: Info, color: "text-gray-400" },
+};
+
+export default function ContentAuditTool() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ContentAuditResponse | null>(null);
+  const [wordCount, setWordCount] = useState(0);
+
+  const form = useForm<ContentAuditRequest>({
+    resolver: zodResolver(contentAuditRequestSchema),
+    defaultValues: {
+      content: "",
+      title: "",
+      metaDescription: "",
+      targetKeywords: "",
+    },
+  });
+
+  const auditMutation = useMutation({
+    mutationFn: async (data: ContentAuditRequest) => {
+      const response = await apiRequest("POST", "/api/content-audit", data);
+      return response.json();
+    },
+    onSuccess: (data: ContentAuditResponse) => {
+      setResult(data);
+      toast({
+        title: "Audit complete!",
+        description: `Your content scored ${data.seoScore}/100.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Audit failed",
+        description: error.message || "Failed to audit content. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ContentAuditRequest) => {
+    auditMutation.mutate(data);
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+    setWordCount(0);
+  };
+
+  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const content = e.target.value;
+    const words = content.trim() ? content.trim().split(/\s+/).length : 0;
+    setWordCount(words);
+    form.setValue("content", content);
+  };
+
+  const metaLength = (form.watch("metaDescription") || "").length;
+
+  const getPlacementIcon = (found: boolean) => (
+    found
+      ? <Check className="h-4 w-4 text-green-600" aria-label="Found" />
+      : <X className="h-4 w-4 text-red-500" aria-label="Missing" />
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Content SEO Audit</h1>
+          <p className="text-gray-600">Score any post or page, wherever it was written, and see what to fix</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 mb-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="title">Title (Optional)</Label>
+              <Input
+                id="title"
+                placeholder="Uses the content's H1 when left empty"
+                {...form.register("title")}
+                data-testid="input-title"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="metaDescription">Meta Description (Optional)</Label>
+              <Textarea
+                id="metaDescription"
+                rows={2}
+                placeholder="The description search engines show under your title"
+                {...form.register("metaDescription")}
+                className="resize-none"
+                data-testid="textarea-meta-description"
+              />
+              <p className="text-sm text-gray-500 mt-1" data-testid="text-meta-length">
+                {metaLength} characters (aim for {META_DESCRIPTION_MIN_LENGTH}-{META_DESCRIPTION_MAX_LENGTH})
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="targetKeywords">Target Keywords (Optional)</Label>
+                <Input
+                  id="targetKeywords"
+                  placeholder="content marketing, seo strategy"
+                  {...form.register("targetKeywords")}
+                  data-testid="input-target-keywords"
+                />
+              </div>
+              <div>
+                <Label htmlFor="format">Content Format</Label>
+                <Select
+                  value={form.watch("format") || "auto"}
+                  onValueChange={(value) => form.setValue("format", value === "auto" ? undefined : value as ContentFormat)}
+                >
+                  <SelectTrigger id="format" data-testid="select-format">
+                    <SelectValue placeholder="Auto-detect" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto-detect</SelectItem>
+                    {(Object.keys(formatLabels) as ContentFormat[]).map((format) => (
+                      <SelectItem key={format} value={format}>{formatLabels[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="content">Content to Audit</Label>
+              <Textarea
+                id="content"
+                rows={12}
+                placeholder="Paste your post as markdown, HTML or plain text..."
+                {...form.register("content")}
+                onChange={handleContentChange}
+                className="resize-none font-mono text-sm"
+                data-testid="textarea-content"
+              />
+              {form.formState.errors.content && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.content.message}</p>
+              )}
+              <div className="flex justify-end text-sm text-gray-500 mt-2">
+                <span data-testid="text-word-count">{wordCount} words</span>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={auditMutation.isPending}
+                className="bg-cyan-600 hover:bg-cyan-700"
+                data-testid="button-audit"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                {auditMutation.isPending ? "Auditing..." : "Audit Content"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        {result && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6" data-testid="results-section">
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h2 className="text-2xl font-bold text-gray-900" data-testid="text-result-title">
+                  {result.title || "Untitled"}
+                </h2>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-2">
+                  <Badge variant="secondary" data-testid="text-format">{formatLabels[result.format]}</Badge>
+                  <span className="flex items-center" data-testid="text-result-word-count">
+                    <FileText className="h-4 w-4 mr-1" />
+                    {result.wordCount.toLocaleString()} words
+                  </span>
+                  <span className="flex items-center" data-testid="text-reading-time">
+                    <Clock className="h-4 w-4 mr-1" />
+                    {result.readingTime} min read
+                  </span>
+                </div>
+                {result.seoTips.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-sm text-gray-700 list-disc pl-5" data-testid="list-seo-tips">
+                    {result.seoTips.map((tip, index) => (
+                      <li key={index}>{tip}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-headings">
+                <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+                  <Heading className="h-4 w-4 mr-2 text-cyan-600" />
+                  Headings
+                </h3>
+                {result.headings.issues.length === 0 ? (
+                  <p className="text-sm text-green-700" data-testid="text-no-heading-issues">The heading structure looks good.</p>
+                ) : (
+                  <ul className="space-y-2 mb-4" data-testid="list-heading-issues">
+                    {result.headings.issues.map((issue, index) => {
+                      const { icon: Icon, color } = issueIcons[issue.severity];
+                      return (
+                        <li key={index} className="flex items-start text-sm text-gray-700">
+                          <Icon className={`h-4 w-4 mr-2 mt-0.5 shrink-0 ${color}`} />
+                          {issue.message}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {result.headings.outline.length > 0 && (
+                  <ol className="space-y-1 mt-4 border-t border-gray-100 pt-4" data-testid="list-heading-outline">
+                    {result.headings.outline.map((heading, index) => (
+                      <li
+                        key={index}
+                        className={`flex items-center text-sm ${heading.level > 2 ? "text-gray-600" : "font-medium text-gray-800"}`}
+                        style={{ paddingLeft: `${Math.max(0, heading.level - 1) * 1.25}rem` }}
+                      >
+                        <span className="text-xs font-mono text-gray-400 w-8">H{heading.level}</span>
+                        {heading.heading}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-density">
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="flex items-center font-semibold text-gray-900">
+                    <Key className="h-4 w-4 mr-2 text-cyan-600" />
+                    Keywords
+                  </h3>
+                  <Link href="/keyword-density" className="text-sm text-primary-600 hover:text-primary-700">
+                    Full density report
+                  </Link>
+                </div>
+                {result.density.targets.length > 0 && (
+                  <div className="overflow-x-auto mb-4">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm" data-testid="table-target-keywords">
+                      <thead>
+                        <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                          <th className="py-2 text-left font-medium">Keyword</th>
+                          <th className="py-2 text-left font-medium">Density</th>
+                          <th className="py-2 text-left font-medium">First 100 Words</th>
+                          <th className="py-2 text-left font-medium">Headings</th>
+                          <th className="py-2 text-left font-medium">Last Paragraph</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {result.density.targets.map((target, index) => (
+                          <tr key={index} data-testid={`row-target-${index}`}>
+                            <td className="py-2 font-medium text-gray-900">{target.word}</td>
+                            <td className="py-2 text-gray-600">{target.density}% ({target.frequency}×)</td>
+                            <td className="py-2">{getPlacementIcon(target.inFirst100Words)}</td>
+                            <td className="py-2">{getPlacementIcon(target.inHeadings)}</td>
+                            <td className="py-2">{getPlacementIcon(target.inLastParagraph)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2" data-testid="list-top-keywords">
+                  {result.density.keywords.slice(0, 10).map((keyword) => (
+                    <Badge key={keyword.word} variant="secondary">
+                      {keyword.word} <span className="ml-1 text-gray-500">{keyword.density}%</span>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {result.title && (
+                <SerpPreview title={result.title} description={result.metaDescription?.content} preview={result.serpPreview} />
+              )}
+            </div>
+
+            <div className="space-y-6">
+              <SeoScorePanel score={result.seoScore} rules={result.seoRules} />
+
+              <ReadabilityPanel readability={result.readability}>
+                <dt>Paragraphs</dt>
+                <dd className="text-right" data-testid="text-paragraph-count">{result.readability.paragraphCount}</dd>
+                <dt>Avg. paragraph</dt>
+                <dd className="text-right" data-testid="text-paragraph-length">{result.readability.averageParagraphLength} words</dd>
+                <dt>Long paragraphs</dt>
+                <dd className={`text-right ${result.readability.longParagraphCount > 0 ? "text-orange-600" : ""}`} data-testid="text-long-paragraphs">
+                  {result.readability.longParagraphCount}
+                </dd>
+              </ReadabilityPanel>
+
+              {result.metaDescription && (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6" data-testid="panel-meta-description">
+                  <div className="flex justify-between items-baseline mb-2">
+                    <h3 className="font-semibold text-gray-900">Meta Description</h3>
+                    <span className="text-sm font-medium text-gray-700" data-testid="text-meta-score">{result.metaDescription.score}/100</span>
+                  </div>
+                  <p className="text-sm text-gray-700">{result.metaDescription.content}</p>
+                  <p className="text-xs text-gray-500 mt-2" data-testid="text-meta-explanation">{result.metaDescription.explanation}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link } from "wouter";
-import { FileText, Type, BarChart3, Upload, Target } from "lucide-react";
+import { FileText, Type, BarChart3, Upload, Target, ListTree, PenLine, Newspaper, ClipboardCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export default function HomePage() {
@@ -44,6 +44,46 @@ export default function HomePage() {
       iconColor: "text-blue-600",
       href: "/seo-title-generator",
     },
+    {
+      icon: ListTree,
+      title: "Blog Outline",
+      description: "Plan posts with structured sections and subsections sized to your target length",
+      badge: "Planning • Free",
+      badgeColor: "text-teal-600",
+      iconBg: "bg-teal-100 group-hover:bg-teal-200",
+      iconColor: "text-teal-600",
+      href: "/blog-outline",
+    },
+    {
+      icon: PenLine,
+      title: "Blog Post Writer",
+      description: "Write complete blog posts with SEO scoring, meta descriptions and suggested tags",
+      badge: "AI-Powered • Free",
+      badgeColor: "text-rose-600",
+      iconBg: "bg-rose-100 group-hover:bg-rose-200",
+      iconColor: "text-rose-600",
+      href: "/blog-post-writer",
+    },
+    {
+      icon: Newspaper,
+      title: "Article Writer",
+      description: "Generate how-to, listicle, news, opinion and research articles ready to publish",
+      badge: "AI-Powered • Free",
+      badgeColor: "text-indigo-600",
+      iconBg: "bg-indigo-100 group-hover:bg-indigo-200",
+      iconColor: "text-indigo-600",
+      href: "/article-writer",
+    },
+    {
+      icon: ClipboardCheck,
+      title: "Content Audit",
+      description: "Score any post for SEO, readability, keyword use and heading structure",
+      badge: "Analytics • Free",
+      badgeColor: "text-cyan-600",
+      iconBg: "bg-cyan-100 group-hover:bg-cyan-200",
+      iconColor: "text-cyan-600",
+      href: "/content-audit",
+    },
     {
       icon: Upload,
       title: "Blog Publisher",
@@ -1,26 +1,45 @@
 import { useState } from "react";
 import { Link } from "wouter";
-import { ArrowLeft, BarChart3 } from "lucide-react";
+import { ArrowLeft, BarChart3, Check, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { keywordDensityRequestSchema, type KeywordDensityRequest, type KeywordDensityResponse } from "@shared/schema";
+import ReadabilityPanel from "@/components/ReadabilityPanel";
+import { keywordDensityRequestSchema, type KeywordDensityRequest, type KeywordDensityResponse, type Language } from "@shared/schema";
+import { LANGUAGE_NAMES } from "@shared/analysis";
+
+type PhraseView = "1" | "2" | "3";
+
+const phraseViews: Record<PhraseView, { label: string; title: string; column: string }> = {
+  "1": { label: "1 word", title: "Top Keywords", column: "Keyword" },
+  "2": { label: "2 words", title: "Top 2-Word Phrases", column: "Phrase" },
+  "3": { label: "3 words", title: "Top 3-Word Phrases", column: "Phrase" },
+};
 
 export default function KeywordDensityTool() {
   const { toast } = useToast();
   const [result, setResult] = useState<KeywordDensityResponse | null>(null);
   const [wordCount, setWordCount] = useState(0);
+  const [phraseView, setPhraseView] = useState<PhraseView>("1");
 
   const form = useForm<KeywordDensityRequest>({
     resolver: zodResolver(keywordDensityRequestSchema),
     defaultValues: {
       content: "",
+      targetKeywords: "",
+      filterStopwords: true,
+      customStopwords: "",
+      lemmatize: true,
     },
   });
 
@@ -53,6 +72,13 @@ export default function KeywordDensityTool() {
     form.reset();
     setResult(null);
     setWordCount(0);
+    setPhraseView("1");
+  };
+
+  const getRows = (data: KeywordDensityResponse) => {
+    if (phraseView === "2") return data.bigrams;
+    if (phraseView === "3") return data.trigrams;
+    return data.keywords;
   };
 
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -62,6 +88,12 @@ export default function KeywordDensityTool() {
     form.setValue("content", content);
   };
 
+  const getPlacementIcon = (found: boolean) => (
+    found
+      ? <Check className="h-4 w-4 text-green-600" aria-label="Found" />
+      : <X className="h-4 w-4 text-red-500" aria-label="Missing" />
+  );
+
   const getStatusBadge = (status: string) => {
     const variants = {
       low: "bg-gray-100 text-gray-800",
@@ -111,6 +143,74 @@ export default function KeywordDensityTool() {
               </div>
             </div>
 
+            <div>
+              <Label htmlFor="targetKeywords">Target Keywords (Optional)</Label>
+              <Input
+                id="targetKeywords"
+                placeholder="content marketing, seo strategy"
+                {...form.register("targetKeywords")}
+                data-testid="input-target-keywords"
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Comma-separated keywords or phrases you want to rank for. Each one is checked for density and placement.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="language">Language</Label>
+              <Select
+                value={form.watch("language") || "auto"}
+                onValueChange={(value) => form.setValue("language", value === "auto" ? undefined : value as Language)}
+              >
+                <SelectTrigger id="language" data-testid="select-language">
+                  <SelectValue placeholder="Auto-detect" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto-detect</SelectItem>
+                  {(Object.keys(LANGUAGE_NAMES) as Language[]).map((code) => (
+                    <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <Label htmlFor="filterStopwords">Ignore Stopwords</Label>
+                  <p className="text-sm text-gray-500">Skip filler words like "that", "with" and "this"</p>
+                </div>
+                <Switch
+                  id="filterStopwords"
+                  checked={form.watch("filterStopwords")}
+                  onCheckedChange={(checked) => form.setValue("filterStopwords", checked)}
+                  data-testid="switch-filter-stopwords"
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+                <div>
+                  <Label htmlFor="lemmatize">Group Word Forms</Label>
+                  <p className="text-sm text-gray-500">Count "optimize", "optimizing" and "optimized" together</p>
+                </div>
+                <Switch
+                  id="lemmatize"
+                  checked={form.watch("lemmatize")}
+                  onCheckedChange={(checked) => form.setValue("lemmatize", checked)}
+                  data-testid="switch-lemmatize"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="customStopwords">Extra Words to Ignore (Optional)</Label>
+              <Input
+                id="customStopwords"
+                placeholder="brand, company, really"
+                {...form.register("customStopwords")}
+                data-testid="input-custom-stopwords"
+              />
+            </div>
+
             <div className="flex gap-4">
               <Button 
                 type="submit" 
@@ -137,6 +237,7 @@ export default function KeywordDensityTool() {
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-lg font-semibold text-gray-900">Keyword Density Analysis</h3>
                 <div className="text-sm text-gray-600">
+                  Language: <span className="font-medium mr-4" data-testid="text-language">{LANGUAGE_NAMES[result.language]}</span>
                   Total words: <span className="font-medium" data-testid="text-total-words">{result.totalWords}</span>
                 </div>
               </div>
@@ -163,17 +264,73 @@ export default function KeywordDensityTool() {
                 </div>
               </div>
 
+              <div className="mb-8">
+                <ReadabilityPanel readability={result.readability} />
+              </div>
+
+              {/* Target Keyword Placement */}
+              {result.targets.length > 0 && (
+                <div className="bg-white border border-gray-200 rounded-lg overflow-hidden mb-8" data-testid="target-keywords-section">
+                  <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+                    <h4 className="font-semibold text-gray-900">Target Keywords</h4>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keyword</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Count</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Density</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First 100 Words</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Headings</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Paragraph</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {result.targets.map((target, index) => (
+                          <tr key={index} data-testid={`row-target-${index}`}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{target.word}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{target.frequency}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              <span className="mr-2">{target.density}%</span>
+                              {getStatusBadge(target.status)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">{getPlacementIcon(target.inFirst100Words)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap">{getPlacementIcon(target.inHeadings)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap">{getPlacementIcon(target.inLastParagraph)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Keyword Table */}
               <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-                <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
-                  <h4 className="font-semibold text-gray-900">Top Keywords</h4>
+                <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
+                  <h4 className="font-semibold text-gray-900">{phraseViews[phraseView].title}</h4>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={phraseView}
+                    onValueChange={(value) => value && setPhraseView(value as PhraseView)}
+                    data-testid="toggle-phrase-view"
+                  >
+                    {(Object.keys(phraseViews) as PhraseView[]).map((view) => (
+                      <ToggleGroupItem key={view} value={view} data-testid={`toggle-phrase-${view}`}>
+                        {phraseViews[view].label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Keyword
+                          {phraseViews[phraseView].column}
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Frequency
@@ -187,10 +344,22 @@ export default function KeywordDensityTool() {
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                      {result.keywords.map((keyword, index) => (
+                      {getRows(result).length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-6 py-4 text-sm text-gray-500 text-center" data-testid="text-no-phrases">
+                            No repeated phrases of this length were found.
+                          </td>
+                        </tr>
+                      )}
+                      {getRows(result).map((keyword, index) => (
                         <tr key={index} data-testid={`row-keyword-${index}`}>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                             {keyword.word}
+                            {keyword.variants && (
+                              <div className="text-xs font-normal text-gray-500" data-testid={`text-variants-${index}`}>
+                                {keyword.variants.join(", ")}
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {keyword.frequency}
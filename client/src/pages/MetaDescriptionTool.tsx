@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link } from "wouter";
-import { ArrowLeft, Sparkles, Copy } from "lucide-react";
+import { ArrowLeft, Sparkles, Copy, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,17 +10,47 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { metaDescriptionRequestSchema, type MetaDescriptionRequest, type MetaDescriptionResponse } from "@shared/schema";
+import SerpPreview from "@/components/SerpPreview";
+import {
+  metaDescriptionRequestSchema,
+  type MetaAudience,
+  type MetaDescriptionRequest,
+  type MetaDescriptionResponse,
+  type Tone,
+} from "@shared/schema";
+
+const audienceLabels: Record<MetaAudience, string> = {
+  "beginners": "Beginners",
+  "intermediate": "Intermediate",
+  "advanced": "Advanced",
+  "business-owners": "Business Owners",
+  "marketers": "Marketers",
+  "developers": "Developers",
+  "students": "Students",
+};
+
+const toneLabels: Record<Tone, string> = {
+  professional: "Professional",
+  casual: "Casual",
+  friendly: "Friendly",
+  authoritative: "Authoritative",
+};
 
 export default function MetaDescriptionTool() {
   const { toast } = useToast();
   const [result, setResult] = useState<MetaDescriptionResponse | null>(null);
+  // The title the result was generated for, so editing the field does not reflow the preview
+  const [previewTitle, setPreviewTitle] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
 
   const form = useForm<MetaDescriptionRequest>({
     resolver: zodResolver(metaDescriptionRequestSchema),
     defaultValues: {
       title: "",
-      audience: "",
+      keywords: "",
+      tone: "professional",
+      brandName: "",
+      count: 5,
     },
   });
 
@@ -31,9 +61,10 @@ export default function MetaDescriptionTool() {
     },
     onSuccess: (data: MetaDescriptionResponse) => {
       setResult(data);
+      setSelectedIndex(0);
       toast({
-        title: "Meta description generated!",
-        description: "Your SEO-optimized meta description is ready.",
+        title: "Meta descriptions generated!",
+        description: `${data.candidates.length} ranked options are ready.`,
       });
     },
     onError: (error: any) => {
@@ -46,13 +77,14 @@ export default function MetaDescriptionTool() {
   });
 
   const onSubmit = (data: MetaDescriptionRequest) => {
+    setPreviewTitle(data.title);
     generateMutation.mutate(data);
   };
 
-  const copyToClipboard = async () => {
-    if (result?.content) {
+  const copyToClipboard = async (content: string) => {
+    if (content) {
       try {
-        await navigator.clipboard.writeText(result.content);
+        await navigator.clipboard.writeText(content);
         toast({
           title: "Copied!",
           description: "Meta description copied to clipboard.",
@@ -101,20 +133,89 @@ export default function MetaDescriptionTool() {
             </div>
 
             <div>
-              <Label htmlFor="audience">Target Audience (Optional)</Label>
-              <Select value={form.watch("audience")} onValueChange={(value) => form.setValue("audience", value)}>
-                <SelectTrigger data-testid="select-audience">
-                  <SelectValue placeholder="Select target audience..." />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="beginners">Beginners</SelectItem>
-                  <SelectItem value="intermediate">Intermediate</SelectItem>
-                  <SelectItem value="advanced">Advanced</SelectItem>
-                  <SelectItem value="business-owners">Business Owners</SelectItem>
-                  <SelectItem value="marketers">Marketers</SelectItem>
-                  <SelectItem value="developers">Developers</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="keywords">Focus Keywords (Optional)</Label>
+              <Input
+                id="keywords"
+                placeholder="e.g., seo optimization, search rankings"
+                {...form.register("keywords")}
+                data-testid="input-keywords"
+              />
+              <p className="text-sm text-gray-500 mt-1">Comma-separated. The first keyword is worked into every description.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Select value={form.watch("audience")} onValueChange={(value) => form.setValue("audience", value as MetaAudience)}>
+                  <SelectTrigger id="audience" data-testid="select-audience">
+                    <SelectValue placeholder="Select target audience..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(audienceLabels) as MetaAudience[]).map((audience) => (
+                      <SelectItem key={audience} value={audience}>{audienceLabels[audience]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="tone">Tone</Label>
+                <Select value={form.watch("tone")} onValueChange={(value) => form.setValue("tone", value as Tone)}>
+                  <SelectTrigger id="tone" data-testid="select-tone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(toneLabels) as Tone[]).map((tone) => (
+                      <SelectItem key={tone} value={tone}>{toneLabels[tone]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="brandName">Brand Name (Optional)</Label>
+                <Input
+                  id="brandName"
+                  placeholder="e.g., Acme Marketing"
+                  {...form.register("brandName")}
+                  data-testid="input-brand-name"
+                />
+                {form.formState.errors.brandName && (
+                  <p className="text-sm text-red-600 mt-1">{form.formState.errors.brandName.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="count">Number of Options</Label>
+                <Select value={String(form.watch("count"))} onValueChange={(value) => form.setValue("count", Number(value))}>
+                  <SelectTrigger id="count" data-testid="select-count">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[3, 5, 10].map((count) => (
+                      <SelectItem key={count} value={String(count)}>{count} options</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="seed">Seed (Optional)</Label>
+              <Input
+                id="seed"
+                type="number"
+                min={0}
+                placeholder="Leave blank for a new variation each time"
+                {...form.register("seed", { setValueAs: (value) => value === "" || value === undefined ? undefined : Number(value) })}
+                data-testid="input-seed"
+              />
+              {form.formState.errors.seed && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.seed.message}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">Reuse the seed from a previous result to get exactly the same options again.</p>
             </div>
 
             <div className="flex gap-4">
@@ -149,28 +250,82 @@ export default function MetaDescriptionTool() {
 
           {result && (
             <div className="mt-8" data-testid="results-section">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Generated Meta Description</h3>
-              <div className="bg-green-50 border border-green-200 rounded-lg p-6">
-                <div className="flex justify-between items-start mb-3">
-                  <h4 className="font-medium text-green-900">Meta Description</h4>
-                  <span className="text-sm text-green-600 font-mono" data-testid="text-character-count">
-                    {result.length} characters
-                  </span>
-                </div>
-                <p className="text-gray-800 leading-relaxed mb-4" data-testid="text-meta-description">
-                  {result.content}
-                </p>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={copyToClipboard}
-                  className="text-green-600 hover:text-green-700"
-                  data-testid="button-copy"
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Ranked Meta Descriptions</h3>
+                <button
+                  type="button"
+                  className="text-sm text-gray-500 font-mono hover:text-gray-700"
+                  onClick={() => form.setValue("seed", result.seed)}
+                  title="Use this seed to regenerate the same options"
+                  data-testid="button-reuse-seed"
                 >
-                  <Copy className="h-4 w-4 mr-1" />
-                  Copy to Clipboard
-                </Button>
+                  Seed {result.seed}
+                </button>
+              </div>
+              <div className="space-y-3">
+                {result.candidates.map((candidate, index) => (
+                  <div
+                    key={index}
+                    className={`rounded-lg p-5 border ${index === selectedIndex ? "bg-green-50 border-green-300" : "bg-white border-gray-200"}`}
+                    data-testid={`candidate-${index}`}
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-500">#{index + 1}</span>
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                          candidate.score >= 85 ? "bg-green-100 text-green-800" :
+                          candidate.score >= 65 ? "bg-yellow-100 text-yellow-800" :
+                          "bg-red-100 text-red-800"
+                        }`} data-testid={`text-candidate-score-${index}`}>
+                          {candidate.score}/100
+                        </span>
+                      </div>
+                      <span className="text-sm text-gray-500 font-mono" data-testid={`text-character-count-${index}`}>
+                        {candidate.length} characters
+                      </span>
+                    </div>
+                    <p className="text-gray-800 leading-relaxed mb-2" data-testid={`text-meta-description-${index}`}>
+                      {candidate.content}
+                    </p>
+                    <p className="text-sm text-gray-600 mb-3">{candidate.explanation}</p>
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mb-3">
+                      <span>Length {candidate.breakdown.length}/30</span>
+                      <span>Keyword {candidate.breakdown.keyword}/30</span>
+                      <span>Call to action {candidate.breakdown.callToAction}/20</span>
+                      <span>Audience {candidate.breakdown.audience}/20</span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyToClipboard(candidate.content)}
+                        className="text-green-600 hover:text-green-700"
+                        data-testid={`button-copy-${index}`}
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy
+                      </Button>
+                      {index !== selectedIndex && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedIndex(index)}
+                          data-testid={`button-preview-${index}`}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          Preview
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
+
+              {result.candidates[selectedIndex] && (
+                <div className="mt-4">
+                  <SerpPreview title={previewTitle} description={result.candidates[selectedIndex].content} />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -2,35 +2,20 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Sparkles, Target, TrendingUp, Download } from "lucide-react";
+import { Copy, Sparkles, Target, TrendingUp, Download, Eye } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-
-const seoTitleRequestSchema = z.object({
-  keywords: z.string().min(1, "Keywords are required"),
-  imageContext: z.string().optional(),
-});
-
-type SeoTitleRequest = z.infer<typeof seoTitleRequestSchema>;
-
-interface SeoTitleResponse {
-  seoTitles: string[];
-  seoTitle: string; // backward compatibility
-  relatedKeywords: string[];
-  keywordString: string;
-  titleScores: number[];
-  titleScore: number; // backward compatibility
-  suggestions: string[];
-}
+import SerpPreview from "@/components/SerpPreview";
+import { seoTitleRequestSchema, type SeoTitleRequest, type SeoTitleResponse } from "@shared/schema";
 
 export default function SeoTitleGeneratorTool() {
   const [result, setResult] = useState<SeoTitleResponse | null>(null);
+  const [previewIndex, setPreviewIndex] = useState(0);
   
   const form = useForm<SeoTitleRequest>({
     resolver: zodResolver(seoTitleRequestSchema),
@@ -56,6 +41,7 @@ export default function SeoTitleGeneratorTool() {
     },
     onSuccess: (data) => {
       setResult(data);
+      setPreviewIndex(0);
     },
     onError: (error) => {
       console.error("Error:", error);
@@ -171,6 +157,23 @@ export default function SeoTitleGeneratorTool() {
                 />
               </div>
 
+              <div>
+                <Label htmlFor="seed">Seed (optional)</Label>
+                <Input
+                  id="seed"
+                  type="number"
+                  min={0}
+                  placeholder="Leave blank for a new variation each time"
+                  {...form.register("seed", { setValueAs: (value) => value === "" || value === undefined ? undefined : Number(value) })}
+                  className="mt-1"
+                />
+                {form.formState.errors.seed && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {form.formState.errors.seed.message}
+                  </p>
+                )}
+              </div>
+
               <Button
                 type="submit"
                 className="w-full"
@@ -221,12 +224,22 @@ export default function SeoTitleGeneratorTool() {
                   Generated SEO Titles ({result.seoTitles.length} options)
                 </CardTitle>
                 <CardDescription>
-                  Choose the title that best fits your content and audience
+                  Choose the title that best fits your content and audience.
+                  Generated with seed{" "}
+                  <button
+                    type="button"
+                    className="font-mono underline decoration-dotted"
+                    onClick={() => form.setValue("seed", result.seed)}
+                    title="Use this seed to regenerate the same titles"
+                  >
+                    {result.seed}
+                  </button>
+                  .
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 {result.seoTitles.map((title, index) => (
-                  <div key={index} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                  <div key={index} className={`border rounded-lg p-4 hover:bg-gray-50 transition-colors ${previewIndex === index ? "border-primary-300" : ""}`}>
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
@@ -238,18 +251,31 @@ export default function SeoTitleGeneratorTool() {
                         <p className="text-lg font-medium text-gray-900 leading-relaxed">{title}</p>
                         <p className="text-sm text-gray-500 mt-1">{title.length} characters</p>
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => copyToClipboard(title)}
-                        className="ml-4"
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
+                      <div className="flex gap-2 ml-4">
+                        <Button
+                          variant={previewIndex === index ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setPreviewIndex(index)}
+                          title="Preview in search results"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => copyToClipboard(title)}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 ))}
                 
+                {result.seoTitles[previewIndex] && (
+                  <SerpPreview title={result.seoTitles[previewIndex]} />
+                )}
+
                 {result.suggestions.length > 0 && (
                   <div className="mt-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
                     <h4 className="font-medium text-yellow-900 mb-2">Suggestions for Improvement:</h4>
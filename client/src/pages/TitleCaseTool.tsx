@@ -1,24 +1,46 @@
-import { useState } from "react";
+import { useRef, useState, type ChangeEvent, type FormEvent } from "react";
 import { Link } from "wouter";
-import { ArrowLeft, Type, Copy } from "lucide-react";
+import { ArrowLeft, Type, Copy, Upload, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { titleCaseRequestSchema, type TitleCaseRequest, type TitleCaseResponse } from "@shared/schema";
+import { downloadCSV, parseCSV } from "@/lib/csv";
+import {
+  titleCaseRequestSchema,
+  type TitleCaseRequest,
+  type TitleCaseResponse,
+  type TitleCaseBatchRequest,
+  type TitleCaseBatchResponse,
+  type TitleCaseStyle,
+  type Language,
+} from "@shared/schema";
+import { LANGUAGE_NAMES, TITLE_CASE_STYLE_LABELS } from "@shared/analysis";
+
+type ConvertMode = "single" | "batch";
 
 export default function TitleCaseTool() {
   const { toast } = useToast();
+  const [mode, setMode] = useState<ConvertMode>("single");
   const [result, setResult] = useState<TitleCaseResponse | null>(null);
+  const [batchText, setBatchText] = useState("");
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [csvColumn, setCsvColumn] = useState("0");
+  const [batchResult, setBatchResult] = useState<TitleCaseBatchResponse | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const form = useForm<TitleCaseRequest>({
     resolver: zodResolver(titleCaseRequestSchema),
     defaultValues: {
       text: "",
+      customDictionary: "",
     },
   });
 
@@ -43,10 +65,99 @@ export default function TitleCaseTool() {
     },
   });
 
+  const batchMutation = useMutation({
+    mutationFn: async (data: TitleCaseBatchRequest) => {
+      const response = await apiRequest("POST", "/api/title-case/batch", data);
+      return response.json();
+    },
+    onSuccess: (data: TitleCaseBatchResponse) => {
+      setBatchResult(data);
+      toast({
+        title: "Titles converted!",
+        description: `${data.changedCount} of ${data.rows.length} titles needed changes.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Batch conversion failed",
+        description: error.message || "Failed to convert titles. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: TitleCaseRequest) => {
     convertMutation.mutate(data);
   };
 
+  const onBatchSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    // Blank lines stay as empty rows so the results line up with an uploaded CSV
+    const texts = batchText.split("\n");
+    while (texts.length > 0 && !texts[texts.length - 1].trim()) texts.pop();
+    if (!texts.some(line => line.trim())) {
+      toast({
+        title: "No titles to convert",
+        description: "Enter one title per line or upload a CSV file.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const { text, ...options } = form.getValues();
+    batchMutation.mutate({ ...options, texts });
+  };
+
+  // The first CSV row is treated as the header; the chosen column fills the
+  // title list one line per row. Line breaks inside a cell become spaces so a
+  // cell never spills onto the next row's line.
+  const fillFromColumn = (rows: string[][], column: string) => {
+    const index = Number(column);
+    setBatchText(rows.slice(1).map(row => (row[index] || "").replace(/\s*[\r\n]+\s*/g, " ")).join("\n"));
+  };
+
+  const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const rows = parseCSV(String(reader.result || ""));
+      if (rows.length < 2) {
+        toast({
+          title: "Empty CSV",
+          description: "The file needs a header row and at least one title.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setCsvRows(rows);
+      setCsvColumn("0");
+      fillFromColumn(rows, "0");
+    };
+    reader.readAsText(file);
+    // Allow the same file to be chosen again
+    event.target.value = "";
+  };
+
+  const selectColumn = (column: string) => {
+    setCsvColumn(column);
+    if (csvRows) fillFromColumn(csvRows, column);
+  };
+
+  const downloadBatchResults = () => {
+    if (!batchResult) return;
+
+    downloadCSV("title-case-results.csv", [
+      ["Original", "Converted", "Style", "Changed"],
+      ...batchResult.rows.map(row => [row.original, row.converted, TITLE_CASE_STYLE_LABELS[row.style], row.changed ? "yes" : "no"]),
+    ]);
+
+    toast({
+      title: "Download started",
+      description: "CSV file has been downloaded",
+    });
+  };
+
   const copyToClipboard = async () => {
     if (result?.converted) {
       try {
@@ -68,6 +179,9 @@ export default function TitleCaseTool() {
   const clearForm = () => {
     form.reset();
     setResult(null);
+    setBatchText("");
+    setCsvRows(null);
+    setBatchResult(null);
   };
 
   return (
@@ -83,32 +197,148 @@ export default function TitleCaseTool() {
         </div>
 
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={mode === "single" ? form.handleSubmit(onSubmit) : onBatchSubmit} className="space-y-6">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as ConvertMode)}
+              className="justify-start"
+              data-testid="toggle-mode"
+            >
+              <ToggleGroupItem value="single" data-testid="toggle-mode-single">Single Title</ToggleGroupItem>
+              <ToggleGroupItem value="batch" data-testid="toggle-mode-batch">Batch</ToggleGroupItem>
+            </ToggleGroup>
+
+            {mode === "single" ? (
+              <div>
+                <Label htmlFor="text">Title or Sentence</Label>
+                <Textarea
+                  id="text"
+                  rows={3}
+                  placeholder="Enter your title or sentence to convert..."
+                  {...form.register("text")}
+                  className="resize-none"
+                  data-testid="textarea-title-input"
+                />
+                {form.formState.errors.text && (
+                  <p className="text-sm text-red-600 mt-1">{form.formState.errors.text.message}</p>
+                )}
+                <p className="text-sm text-gray-500 mt-1">Example: "how to create the perfect blog post for seo"</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleFileUpload}
+                      className="hidden"
+                      data-testid="input-csv-file"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => fileInputRef.current?.click()}
+                      data-testid="button-upload-csv"
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload CSV
+                    </Button>
+                  </div>
+                  {csvRows && (
+                    <div className="min-w-[200px]">
+                      <Label htmlFor="csvColumn">Title Column</Label>
+                      <Select value={csvColumn} onValueChange={selectColumn}>
+                        <SelectTrigger id="csvColumn" data-testid="select-csv-column">
+                          <SelectValue placeholder="Select a column..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {csvRows[0].map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="batchText">Titles (one per line)</Label>
+                  <Textarea
+                    id="batchText"
+                    rows={8}
+                    placeholder={"how to create the perfect blog post for seo\nthe best seo tools for small business"}
+                    value={batchText}
+                    onChange={(event) => setBatchText(event.target.value)}
+                    className="resize-y font-mono text-sm"
+                    data-testid="textarea-batch-input"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">Paste up to 1,000 titles, or upload a CSV and pick the column that holds them.</p>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="style">Style Guide</Label>
+                <Select
+                  value={form.watch("style") || "default"}
+                  onValueChange={(value) => form.setValue("style", value === "default" ? undefined : value as TitleCaseStyle)}
+                >
+                  <SelectTrigger id="style" data-testid="select-style">
+                    <SelectValue placeholder="Select a style guide..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default (Chicago, sentence case outside English)</SelectItem>
+                    {(Object.keys(TITLE_CASE_STYLE_LABELS) as TitleCaseStyle[]).map((style) => (
+                      <SelectItem key={style} value={style}>{TITLE_CASE_STYLE_LABELS[style]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="language">Language</Label>
+                <Select
+                  value={form.watch("language") || "auto"}
+                  onValueChange={(value) => form.setValue("language", value === "auto" ? undefined : value as Language)}
+                >
+                  <SelectTrigger id="language" data-testid="select-language">
+                    <SelectValue placeholder="Auto-detect" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto-detect</SelectItem>
+                    {(Object.keys(LANGUAGE_NAMES) as Language[]).map((code) => (
+                      <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
             <div>
-              <Label htmlFor="text">Title or Sentence</Label>
-              <Textarea
-                id="text"
-                rows={3}
-                placeholder="Enter your title or sentence to convert..."
-                {...form.register("text")}
-                className="resize-none"
-                data-testid="textarea-title-input"
+              <Label htmlFor="customDictionary">Custom Dictionary (Optional)</Label>
+              <Input
+                id="customDictionary"
+                placeholder="e.g., HubSpot, SEMrush, GPT-4"
+                {...form.register("customDictionary")}
+                data-testid="input-custom-dictionary"
               />
-              {form.formState.errors.text && (
-                <p className="text-sm text-red-600 mt-1">{form.formState.errors.text.message}</p>
-              )}
-              <p className="text-sm text-gray-500 mt-1">Example: "how to create the perfect blog post for seo"</p>
+              <p className="text-sm text-gray-500 mt-1">Words to keep exactly as written, separated by commas. Common acronyms and brands (SEO, iPhone, JavaScript) are kept automatically.</p>
             </div>
 
             <div className="flex gap-4">
               <Button 
                 type="submit" 
-                disabled={convertMutation.isPending}
+                disabled={convertMutation.isPending || batchMutation.isPending}
                 className="bg-green-600 hover:bg-green-700"
                 data-testid="button-convert"
               >
                 <Type className="h-4 w-4 mr-2" />
-                Convert to Title Case
+                {mode === "single" ? "Convert to Title Case" : "Convert All Titles"}
               </Button>
               <Button 
                 type="button" 
@@ -121,13 +351,18 @@ export default function TitleCaseTool() {
             </div>
           </form>
 
-          {result && (
+          {mode === "single" && result && (
             <div className="mt-8" data-testid="results-section">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Converted Title</h3>
               <div className="space-y-4">
                 <div className="bg-green-50 border border-green-200 rounded-lg p-6">
                   <div className="flex justify-between items-start mb-3">
-                    <h4 className="font-medium text-green-900">Title Case Result</h4>
+                    <h4 className="font-medium text-green-900">
+                      Title Case Result
+                      <span className="ml-2 text-sm font-normal text-green-700" data-testid="text-language">
+                        ({TITLE_CASE_STYLE_LABELS[result.style]}, {LANGUAGE_NAMES[result.language]})
+                      </span>
+                    </h4>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -152,6 +387,74 @@ export default function TitleCaseTool() {
                     ))}
                   </ul>
                 </div>
+
+                <div className="border border-gray-200 rounded-lg overflow-hidden" data-testid="word-breakdown">
+                  <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+                    <h4 className="font-medium text-gray-900">Word-by-Word Breakdown</h4>
+                  </div>
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {result.words.map((word, index) => (
+                        <tr key={index} data-testid={`row-word-${index}`}>
+                          <td className="px-4 py-2 text-gray-500">{word.original}</td>
+                          <td className="px-4 py-2 font-medium text-gray-900">{word.converted}</td>
+                          <td className="px-4 py-2 text-gray-600">{word.rule}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {mode === "batch" && batchResult && (
+            <div className="mt-8" data-testid="batch-results-section">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Converted Titles
+                  <span className="ml-2 text-sm font-normal text-gray-600" data-testid="text-batch-summary">
+                    {batchResult.changedCount} of {batchResult.rows.length} changed
+                  </span>
+                </h3>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadBatchResults}
+                  data-testid="button-download-csv"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download CSV
+                </Button>
+              </div>
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Original</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Converted</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Style</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {batchResult.rows.map((row, index) => (
+                      <tr key={index} data-testid={`row-batch-${index}`}>
+                        <td className="px-4 py-2 text-gray-500">{row.original}</td>
+                        <td className="px-4 py-2 font-medium text-gray-900">{row.converted}</td>
+                        <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{TITLE_CASE_STYLE_LABELS[row.style]}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                            row.changed ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"
+                          }`}>
+                            {row.changed ? "Changed" : "Unchanged"}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             </div>
           )}
@@ -0,0 +1,64 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createContentProvider, mockProvider, type ContentProvider } from "./providers";
+import { startTestApp, type TestApp } from "./test-app";
+
+// The mock provider, noting each provider method the routes call
+const calls: string[] = [];
+const recordingProvider = Object.fromEntries(Object.entries(mockProvider).map(([name, value]) => [
+  name,
+  typeof value === "function"
+    ? (...args: unknown[]) => {
+      calls.push(name);
+      return value.apply(mockProvider, args);
+    }
+    : value,
+])) as ContentProvider;
+
+let app: TestApp;
+before(async () => {
+  app = await startTestApp(recordingProvider);
+});
+after(() => app.close());
+
+test("CONTENT_PROVIDER=mock selects the mock provider", () => {
+  assert.equal(createContentProvider({ CONTENT_PROVIDER: "mock" }), mockProvider);
+});
+
+test("blog posts are written by the provider", async () => {
+  calls.length = 0;
+  const { status, body } = await app.post("/api/blog-post", { title: "Remote work for teams", length: "short", seed: 1 });
+
+  assert.equal(status, 200);
+  assert.deepEqual(calls, ["generateBlogContent", "generateMetaDescription"]);
+  assert.match(body.content, /This placeholder paragraph discusses/);
+  assert.equal(body.metaDescription, "Mock meta description for Remote work for teams.");
+});
+
+test("articles are written by the provider", async () => {
+  calls.length = 0;
+  const { status, body } = await app.post("/api/article", { topic: "Composting", style: "listicle", length: "short", seed: 1 });
+
+  assert.equal(status, 200);
+  assert.deepEqual(calls, ["generateArticleContent", "generateMetaDescription"]);
+  assert.match(body.content, /This placeholder paragraph discusses/);
+});
+
+test("meta description candidates come from the provider", async () => {
+  calls.length = 0;
+  const { status, body } = await app.post("/api/meta-description", { title: "Composting at home", count: 3, seed: 1 });
+
+  assert.equal(status, 200);
+  assert.deepEqual(calls, ["generateMetaDescriptionCandidates"]);
+  assert.equal(body.candidates.length, 3);
+  assert.ok(body.candidates.every((candidate: { content: string }) => candidate.content.startsWith("Mock meta description")));
+});
+
+test("SEO titles come from the provider", async () => {
+  calls.length = 0;
+  const { status, body } = await app.post("/api/seo-title-generator", { keywords: "compost, garden", seed: 1 });
+
+  assert.equal(status, 200);
+  assert.deepEqual(calls, ["generateSeoTitles"]);
+  assert.deepEqual(body.seoTitles.slice(0, 2), ["Mock SEO Title 1: compost garden", "Mock SEO Title 2: compost garden"]);
+});
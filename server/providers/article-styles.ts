@@ -0,0 +1,301 @@
+import type { Random } from "@shared/analysis";
+import type { ArticleRequest } from "@shared/schema";
+import type { ToneBank } from "./tone-banks";
+
+// Section kinds with a shape of their own. Sections without a kind are
+// written from the tone banks like any blog post section.
+export type ArticleSectionKind =
+  | "requirements" | "steps"
+  | "list-item"
+  | "lede" | "details" | "background" | "outlook"
+  | "argument" | "counter-argument" | "rebuttal"
+  | "literature" | "methodology" | "findings" | "limitations" | "references";
+
+export type ArticleStyle = ArticleRequest["style"];
+
+interface SectionContext {
+  topic: string;
+  keyword: string;
+  heading: string;
+  targetWords: number;
+}
+
+type SectionWriter = (random: Random, context: SectionContext) => string;
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Placeholders in square brackets mark facts only the author can supply. The
+// date is one of them, so a seed gives the same article on any day.
+function dateline(): string {
+  return `[CITY], [DATE] —`;
+}
+
+// Listicle entries, in the order a list of that length uses them
+export const LISTICLE_ITEMS: { title: string; body: (topic: string, keyword: string) => string }[] = [
+  {
+    title: "Start With a Clear Goal",
+    body: (topic, keyword) => `Every successful approach to ${topic} begins with a goal you can state in one sentence. A clear goal tells you which parts of ${keyword} deserve attention and which can wait. Without one, effort spreads thin and progress becomes hard to judge.`,
+  },
+  {
+    title: "Know Your Audience",
+    body: (topic, keyword) => `${capitalize(keyword)} only works when it fits the people it is meant to serve. Spend time learning what they need, what they already know and where they get stuck. The answers shape every later decision about ${topic}.`,
+  },
+  {
+    title: "Master the Fundamentals First",
+    body: (topic, keyword) => `Advanced techniques are tempting, but they rest on basics that have to be solid first. Most problems with ${keyword} trace back to a skipped fundamental rather than a missing trick. Time spent on the basics of ${topic} pays off at every later stage.`,
+  },
+  {
+    title: "Choose the Right Tools",
+    body: (topic, keyword) => `The right tools make ${keyword} faster and more reliable, while the wrong ones add friction to every task. Choose tools that match the scale of your work today, not the scale you hope to reach. You can always upgrade once ${topic} demands it.`,
+  },
+  {
+    title: "Measure What Matters",
+    body: (topic, keyword) => `Pick two or three numbers that reflect real progress with ${keyword} and track them consistently. Too many metrics bury the signal, while too few hide problems. Good measurement turns ${topic} from guesswork into a series of informed decisions.`,
+  },
+  {
+    title: "Consistency Beats Intensity",
+    body: (topic, keyword) => `Short, regular sessions of work on ${keyword} outperform occasional bursts of effort. Consistency builds habits, surfaces problems early and compounds small gains over time. Treat ${topic} as a routine rather than a project with an end date.`,
+  },
+  {
+    title: "Learn From Your Mistakes",
+    body: (topic, keyword) => `Mistakes with ${keyword} are inevitable, and each one carries useful information. Keep a simple log of what went wrong and why. Reviewing it every few weeks reveals patterns that no guide to ${topic} can show you.`,
+  },
+  {
+    title: "Borrow From the Best",
+    body: (topic, keyword) => `Study people who already do ${keyword} well and note what they do differently. You do not need to copy them exactly; adapt the ideas that suit your situation. Good examples shorten the learning curve for ${topic} considerably.`,
+  },
+  {
+    title: "Keep It Simple",
+    body: (topic, keyword) => `Complexity is the enemy of execution. The simplest version of ${keyword} that meets your goal is usually the one that gets finished and maintained. Add complexity to ${topic} only when a clear problem demands it.`,
+  },
+  {
+    title: "Review and Refresh Regularly",
+    body: (topic, keyword) => `What works for ${keyword} today may not work next year. Schedule a regular review to retire what no longer helps and try what might. A habit of refreshing keeps your approach to ${topic} current.`,
+  },
+];
+
+// How-to steps in their natural order; shorter guides keep the earlier
+// priorities and drop the rest
+const HOW_TO_STEPS: { priority: number; text: (topic: string, keyword: string) => string }[] = [
+  { priority: 1, text: (topic) => `**Define what success looks like.** Decide what ${topic} should achieve and how you will know it has worked. Write the goal down in one sentence.` },
+  { priority: 4, text: () => `**Gather what you need.** Collect the tools, information and time listed above before you begin, so the work is not interrupted halfway through.` },
+  { priority: 2, text: (topic, keyword) => `**Start with a small first version.** Apply ${keyword} to a single, low-risk case. A small start exposes problems while they are still cheap to fix.` },
+  { priority: 7, text: () => `**Work from a checklist.** Break the task into short, concrete actions and tick each one off. A checklist keeps quality steady when attention drifts.` },
+  { priority: 3, text: () => `**Check the results.** Compare what happened with the goal from the first step. Note what worked, what did not and why.` },
+  { priority: 5, text: () => `**Adjust one thing at a time.** Change a single variable based on what you learned, so you can tell which change made the difference.` },
+  { priority: 8, text: (topic, keyword) => `**Expand gradually.** Once the small version works reliably, apply ${keyword} to more cases, keeping the same checks in place.` },
+  { priority: 6, text: () => `**Document the process.** Record the final steps so that you, or anyone else, can repeat them without starting from scratch.` },
+];
+
+const REFERENCE_COUNT = 4;
+
+export const ARTICLE_SECTION_WRITERS: Record<ArticleSectionKind, SectionWriter> = {
+  requirements: (random, { topic, keyword }) => [
+    `Before you start with ${topic}, make sure the following are in place:`,
+    [
+      `- **A clear goal.** One sentence describing what you want ${keyword} to achieve.`,
+      `- **Time set aside.** A few uninterrupted hours for the first attempt.`,
+      `- **The right tools.** Whatever software, templates or equipment the task calls for.`,
+      `- **A way to measure results.** A simple metric or checklist to judge the outcome.`,
+      `- **A second pair of eyes.** Someone who can review the work and spot gaps.`,
+    ].join('\n'),
+    random.pick([
+      `None of these needs to be elaborate. What matters is that each one is decided before the work begins.`,
+      `Having these ready turns the steps below into a straightforward checklist rather than a series of interruptions.`,
+    ]),
+  ].join('\n\n'),
+
+  steps: (random, { topic, keyword, targetWords }) => {
+    // Roughly 30 words a step, between four and all eight
+    const count = Math.min(HOW_TO_STEPS.length, Math.max(4, Math.round(targetWords / 30)));
+    const steps = HOW_TO_STEPS.filter(step => step.priority <= count);
+    return [
+      `Work through these steps in order:`,
+      steps.map((step, index) => `${index + 1}. ${step.text(topic, keyword)}`).join('\n'),
+      `> **Tip:** ` + random.pick([
+        `Repeat the cycle as often as you need. Each pass through these steps makes ${keyword} more predictable.`,
+        `The steps are simple on purpose. Following them in order matters more than any individual technique.`,
+      ]),
+    ].join('\n\n');
+  },
+
+  "list-item": (random, { topic, keyword, heading }) => {
+    const title = heading.replace(/^\d+\.\s*/, '');
+    const item = LISTICLE_ITEMS.find(candidate => candidate.title === title);
+    return item ? item.body(topic, keyword) : `${title} is one of the most useful ideas to keep in mind when working with ${keyword}.`;
+  },
+
+  lede: (random, { topic, keyword }) => `${dateline()} ` + random.pick([
+    `${capitalize(topic)} is drawing renewed attention this week as organizations reassess how they approach ${keyword}. Observers say the shift could change how teams plan, budget and measure their work over the coming year.\n\nThe development follows months of growing interest in ${keyword}, with practitioners reporting both new opportunities and fresh challenges.`,
+    `New developments in ${topic} are prompting businesses and practitioners to revisit their plans for ${keyword}, according to [source]. The changes are expected to affect how organizations allocate time and budget in the months ahead.\n\n[Add the single most important fact or figure here.]`,
+  ]),
+
+  details: (random, { keyword }) => [
+    `The key facts so far:`,
+    [
+      `- **What changed:** [Describe the development in one sentence.]`,
+      `- **Who is affected:** Organizations and individuals who rely on ${keyword}.`,
+      `- **When:** [Add the date or timeframe.]`,
+      `- **Why it matters:** The change affects cost, effort and expected results.`,
+    ].join('\n'),
+    random.pick([
+      `According to [source], the effects are likely to be felt first by smaller teams with limited resources. Larger organizations are expected to adapt more gradually.`,
+      `Early reports from [source] suggest the impact will vary widely depending on how heavily each organization already depends on ${keyword}.`,
+    ]),
+  ].join('\n\n'),
+
+  background: (random, { topic, keyword }) => random.pick([
+    `${capitalize(keyword)} has evolved steadily over the past several years. What began as a specialist concern has become a routine part of how many organizations operate, and expectations around ${topic} have risen accordingly.\n\nThat history helps explain why even modest changes now draw wide attention.`,
+    `Interest in ${topic} has grown alongside the tools and practices that support it. As ${keyword} moved from experiment to everyday practice, the standards for doing it well became clearer, and so did the cost of falling behind.`,
+  ]),
+
+  outlook: (random, { keyword }) => random.pick([
+    `What happens next will depend largely on how quickly organizations adapt. Analysts expect further announcements in the coming months, and practitioners are advised to review their current approach to ${keyword} now rather than wait.\n\n[Add upcoming dates, deadlines or next milestones.]`,
+    `The full effect may take time to become clear. In the meantime, those who depend on ${keyword} are watching for further detail from [source], which is expected to publish more information soon.`,
+  ]),
+
+  argument: (random, { topic, keyword }) => random.pick([
+    `My position is simple: ${keyword} deserves far more attention than it currently gets. I hold that view for three reasons.\n\nFirst, the cost of neglecting ${topic} grows quietly until it becomes impossible to ignore. Second, the benefits compound; small improvements made early keep paying off for years. Third, the barriers to doing it well are lower than most people assume.`,
+    `I believe the conventional approach to ${topic} gets the priorities backwards. Too much energy goes into advanced tactics, and too little into the basics of ${keyword} that decide most outcomes.\n\nWhen I look at the people and organizations that succeed, the pattern is consistent: they treat the fundamentals as the strategy, not as a step to rush through.`,
+  ]),
+
+  "counter-argument": (random, { keyword }) => random.pick([
+    `The strongest objection is that ${keyword} takes more time than it saves, especially for small teams already stretched thin. Critics also point out that results can be slow to appear, which makes the investment hard to justify.\n\nThese concerns deserve a fair hearing. Time is genuinely scarce, and not every effort pays off.`,
+    `Not everyone agrees. Skeptics argue that the emphasis on ${keyword} is overstated and that the same resources would do more good elsewhere. Some point to cases where careful effort produced little measurable return.\n\nThat criticism is not baseless, and any honest case has to answer it.`,
+  ]),
+
+  rebuttal: (random, { keyword }) => random.pick([
+    `Even granting those points, the case for ${keyword} holds. The time cost is real but front-loaded, while the benefits arrive steadily for years afterwards. And the cases where effort produced little return usually involved doing too much at once, not too little.\n\nThe answer to a slow start is a smaller, more focused start, not giving up.`,
+    `The objections are fair, but they describe poor execution rather than a flawed idea. When ${keyword} is approached in small, measurable steps, the cost stays manageable and the return becomes visible quickly. Weighing both sides, I remain convinced the investment is worth making.`,
+  ]),
+
+  literature: (random, { topic, keyword }) => random.pick([
+    `Prior work on ${topic} has examined how ${keyword} affects outcomes across a range of settings [1]. Subsequent studies extended these findings to larger samples and longer timeframes [2], while others questioned how far the early results generalize [3].\n\nThis article builds on that body of work by focusing on the factors practitioners can most directly control.`,
+    `Research interest in ${keyword} has grown steadily. Early studies established a link between structured practice and measurable results [1], and later reviews identified the conditions under which that link is strongest [2]. Open questions remain about long-term effects and about settings with limited resources [3].`,
+  ]),
+
+  methodology: (random, { keyword }) => [
+    random.pick([
+      `The analysis follows a structured review of available evidence on ${keyword}. The approach is summarized below:`,
+      `To keep the findings comparable, the same method was applied throughout:`,
+    ]),
+    [
+      `- **Data source:** [Describe the dataset, survey or literature reviewed.]`,
+      `- **Sample:** [Number and type of cases, participants or studies.]`,
+      `- **Period:** [Timeframe covered.]`,
+      `- **Analysis:** [Statistical or qualitative method used.]`,
+    ].join('\n'),
+    `Each source was assessed for relevance and quality before inclusion, and the criteria were fixed before the review began to limit selection bias.`,
+  ].join('\n\n'),
+
+  findings: (random, { keyword }) => [
+    `Three findings stand out:`,
+    [
+      `1. **Consistency predicts results.** Sustained, regular practice of ${keyword} was associated with better outcomes than occasional intensive effort [2].`,
+      `2. **Measurement matters.** Cases that tracked a small set of clear metrics improved faster than those that did not [1].`,
+      `3. **Context shapes effect size.** The benefits were largest where resources were limited and priorities were clear [3].`,
+    ].join('\n'),
+    random.pick([
+      `[Add figures, effect sizes or a summary table here.]`,
+      `Together, these results suggest that the way ${keyword} is practised matters at least as much as how much effort goes into it. [Add supporting figures here.]`,
+    ]),
+  ].join('\n\n'),
+
+  limitations: (random, { keyword }) => random.pick([
+    `Several limitations qualify these findings. First, the evidence base is uneven, and some settings are represented by only a handful of cases. Second, most sources report short-term outcomes, so long-term effects of ${keyword} remain uncertain. Third, differences in how studies define success make direct comparison difficult.`,
+    `These results should be read with care. The available data on ${keyword} comes largely from self-reported sources, which may overstate positive outcomes. Sample sizes vary widely, and few studies follow their subjects over long periods. Further work with consistent measures is needed.`,
+  ]),
+
+  references: () => [
+    Array.from({ length: REFERENCE_COUNT }, (_, index) => `- [${index + 1}] Author, A. (Year). *Title of the source*. Publisher or journal.`).join('\n'),
+    `> **Note:** Replace each placeholder with a full citation in your preferred style.`,
+  ].join('\n\n'),
+};
+
+// Sentences that lengthen a section in the style's own register. How-to
+// guides and listicles use the professional tone bank instead.
+export const ARTICLE_ELABORATIONS: Partial<Record<ArticleStyle, Pick<ToneBank, "points" | "examples">>> = {
+  news: {
+    points: (keyword) => [
+      `Industry figures indicate that spending on ${keyword} has risen steadily, though estimates vary by sector.`,
+      `Analysts note that organizations with an established approach to ${keyword} are likely to adapt fastest.`,
+      `Smaller organizations may face the steepest adjustment, according to people familiar with the matter.`,
+      `Several practitioners said they were reviewing their plans for ${keyword} in light of the change.`,
+      `The change comes amid wider shifts in how organizations measure the return on ${keyword}.`,
+      `Observers caution that the long-term effect on ${keyword} remains difficult to predict.`,
+      `The timing has caught some organizations off guard, particularly those midway through annual planning.`,
+      `Trade groups are expected to issue guidance on ${keyword} once the details are confirmed.`,
+      `Early indications suggest the change will raise the standard expected of ${keyword} across the sector.`,
+      `It is not yet clear whether the change will be applied uniformly or phased in over time.`,
+    ],
+    examples: () => [
+      `"[Add a quote from someone directly involved]," said [name, title].`,
+      `[Organization] said in a statement that it would [describe its response].`,
+      `A spokesperson for [organization] declined to comment on the details.`,
+      `[Name], an analyst at [firm], described the change as "[quote]."`,
+      `Data from [source] shows [add the relevant figure].`,
+      `According to [source], [add a supporting detail].`,
+      `[Organization] did not respond to a request for comment by the time of publication.`,
+      `Figures released by [source] put the number of affected organizations at [add figure].`,
+    ],
+  },
+  opinion: {
+    points: (keyword) => [
+      `I have seen the same pattern repeat: teams that take ${keyword} seriously early rarely regret it.`,
+      `To my mind, the real risk is not doing ${keyword} badly but not doing it at all.`,
+      `What frustrates me most is how often ${keyword} is treated as optional.`,
+      `I would rather see a modest, consistent effort on ${keyword} than an ambitious plan that never starts.`,
+      `The evidence I find most convincing is practical, not theoretical.`,
+      `Put simply, I think the debate about ${keyword} is long overdue.`,
+      `I do not claim ${keyword} solves every problem, only that it solves more than it is given credit for.`,
+      `My own view has shifted over the years, and the shift has always been towards taking ${keyword} more seriously.`,
+      `If I had to name one habit that separates strong teams from average ones, it would be this.`,
+      `I suspect most people already know this and simply find it easier to postpone.`,
+    ],
+    examples: (keyword) => [
+      `Consider a team that postponed ${keyword} for a year and then spent twice as long catching up.`,
+      `I think of one organization that made ${keyword} a weekly habit and saw steady gains within months.`,
+      `The clearest example I know is a small business that outperformed larger rivals simply by staying consistent.`,
+      `Anyone who has watched a project drift without clear priorities will recognize the problem.`,
+      `Look at the organizations that lead their fields, and you will find the same discipline at work.`,
+      `I have watched a well-funded initiative fail for lack of exactly this kind of attention.`,
+      `Ask anyone who has rebuilt a neglected process from scratch whether they would rather have started earlier.`,
+      `The best teams I have worked with treat ${keyword} as part of the job, not an extra.`,
+    ],
+  },
+  research: {
+    points: (keyword) => [
+      `These patterns are consistent with earlier observations on ${keyword} [1].`,
+      `The relationship appears robust across settings, although effect sizes vary [2].`,
+      `Further analysis would be required to establish causality rather than association.`,
+      `Comparable results have been reported in adjacent fields [3].`,
+      `The observed variation may reflect differences in how ${keyword} is defined and measured.`,
+      `Taken together, the evidence supports a cautious but positive assessment of ${keyword}.`,
+      `Effects were generally larger in the later stages of adoption than in the first months.`,
+      `No single factor accounted for most of the variation; outcomes reflected several interacting conditions.`,
+      `Where results diverged, the difference was usually attributable to implementation quality [2].`,
+      `The direction of the effect was consistent even where its magnitude was not [1].`,
+    ],
+    examples: (keyword) => [
+      `[Add a supporting statistic or table reference here.]`,
+      `For instance, one study reported measurable improvement within six months of adopting a structured approach [4].`,
+      `A comparison of early and late adopters illustrates the same trend [2].`,
+      `Case data from [source] provide a representative example.`,
+      `Similar findings were noted in a longitudinal review of ${keyword} practices [3].`,
+      `[Insert an illustrative case or figure.]`,
+      `A cross-sectional survey of practitioners reached a similar conclusion [1].`,
+      `Table [n] summarizes the relevant measures. [Add the table.]`,
+    ],
+  },
+};
+
+// Passed to hosted models so they give each style its proper shape
+export const ARTICLE_STYLE_GUIDANCE: Record<ArticleStyle, string> = {
+  "how-to": "Write the steps as a numbered markdown list, one action per step, and list prerequisites as bullets.",
+  listicle: "Give each numbered item its own distinct point; do not repeat ideas between items.",
+  news: "Use the inverted pyramid: open with a dateline (\"[CITY], Month Day, Year —\") and the most important facts, then supporting detail, then background. Mark facts you cannot verify as [placeholders].",
+  opinion: "Argue in the first person: state the argument, present the strongest counter-argument fairly, then rebut it.",
+  research: "Use an academic register with numbered citation placeholders like [1] that match a references list, and separate methodology, findings and limitations.",
+};
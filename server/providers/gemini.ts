@@ -0,0 +1,35 @@
+import { GoogleGenAI } from "@google/genai";
+import type { Complete, CompleteStream, CompletionRequest } from "./llm";
+
+export interface GeminiConfig {
+  apiKey: string;
+  model: string;
+}
+
+export function createGeminiCompletion({ apiKey, model }: GeminiConfig): { complete: Complete; completeStream: CompleteStream } {
+  const client = new GoogleGenAI({ apiKey });
+
+  const params = ({ system, prompt, maxTokens, seed }: CompletionRequest) => ({
+    model,
+    contents: prompt,
+    config: {
+      systemInstruction: system,
+      maxOutputTokens: maxTokens,
+      // Gemini takes a signed 32-bit seed
+      seed: seed % 0x80000000,
+    },
+  });
+
+  return {
+    async complete(request) {
+      const response = await client.models.generateContent(params(request));
+      return response.text || "";
+    },
+    async *completeStream(request) {
+      const stream = await client.models.generateContentStream(params(request));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { Complete } from "./llm";
+
+export interface HuggingFaceConfig {
+  apiKey: string;
+  model: string;
+  baseURL: string;
+}
+
+// Text generation through the Hugging Face Inference API. It has no streaming
+// variant here, so streamed posts arrive as soon as the whole reply does.
+export function createHuggingFaceCompletion({ apiKey, model, baseURL }: HuggingFaceConfig): Complete {
+  return async ({ system, prompt, maxTokens, seed }) => {
+    const response = await fetch(`${baseURL.replace(/\/$/, "")}/${model}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        inputs: `${system}\n\n${prompt}`,
+        parameters: {
+          max_new_tokens: maxTokens,
+          return_full_text: false,
+          seed,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hugging Face request failed with ${response.status}: ${await response.text()}`);
+    }
+
+    const result = await response.json() as { generated_text?: string }[] | { generated_text?: string };
+    const [first] = Array.isArray(result) ? result : [result];
+    return first?.generated_text || "";
+  };
+}
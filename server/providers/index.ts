@@ -0,0 +1,61 @@
+import { createLlmProvider } from "./llm";
+import { mockProvider } from "./mock";
+import { templateProvider } from "./template";
+import { createGeminiCompletion } from "./gemini";
+import { createHuggingFaceCompletion } from "./huggingface";
+import { createOpenAiCompletion } from "./openai";
+import type { ContentProvider } from "./types";
+
+export * from "./types";
+export { templateProvider, mockProvider, createLlmProvider };
+export { LISTICLE_ITEMS, type ArticleSectionKind } from "./article-styles";
+
+const PROVIDER_NAMES = ["template", "mock", "openai", "huggingface", "gemini"] as const;
+type ProviderName = typeof PROVIDER_NAMES[number];
+
+function requireKey(provider: ProviderName, ...values: (string | undefined)[]): string {
+  const key = values.find(Boolean);
+  if (!key) {
+    throw new Error(`CONTENT_PROVIDER=${provider} needs an API key; see the README for the variables it reads`);
+  }
+  return key;
+}
+
+// Picks the provider named by CONTENT_PROVIDER (default "template"):
+//   openai       OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL for compatible endpoints
+//   huggingface  HUGGING_FACE_API_KEY or HF_API_KEY, HF_MODEL, HF_API_URL
+//   gemini       GEMINI_API_KEY or GOOGLE_API_KEY, GEMINI_MODEL
+//   mock         deterministic placeholder text, no network access
+export function createContentProvider(env: NodeJS.ProcessEnv = process.env): ContentProvider {
+  const name = (env.CONTENT_PROVIDER || "template").toLowerCase() as ProviderName;
+
+  switch (name) {
+    case "template":
+      return templateProvider;
+    case "mock":
+      return mockProvider;
+    case "openai": {
+      const { complete, completeStream } = createOpenAiCompletion({
+        apiKey: requireKey(name, env.OPENAI_API_KEY),
+        model: env.OPENAI_MODEL || "gpt-4o-mini",
+        baseURL: env.OPENAI_BASE_URL || undefined,
+      });
+      return createLlmProvider(name, complete, completeStream);
+    }
+    case "huggingface":
+      return createLlmProvider(name, createHuggingFaceCompletion({
+        apiKey: requireKey(name, env.HUGGING_FACE_API_KEY, env.HF_API_KEY),
+        model: env.HF_MODEL || "mistralai/Mistral-7B-Instruct-v0.3",
+        baseURL: env.HF_API_URL || "https://api-inference.huggingface.co/models",
+      }));
+    case "gemini": {
+      const { complete, completeStream } = createGeminiCompletion({
+        apiKey: requireKey(name, env.GEMINI_API_KEY, env.GOOGLE_API_KEY),
+        model: env.GEMINI_MODEL || "gemini-2.5-flash",
+      });
+      return createLlmProvider(name, complete, completeStream);
+    }
+    default:
+      throw new Error(`Unknown CONTENT_PROVIDER "${env.CONTENT_PROVIDER}"; expected one of ${PROVIDER_NAMES.join(", ")}`);
+  }
+}
@@ -0,0 +1,264 @@
+import { AUDIENCE_PROFILES, META_DESCRIPTION_MAX_LENGTH, TONE_PROFILES, rankMetaDescriptions, truncateMetaDescription, type Random } from "@shared/analysis";
+import type { Audience } from "@shared/schema";
+import { ARTICLE_STYLE_GUIDANCE } from "./article-styles";
+import { templateProvider } from "./template";
+import type { ArticleContentInput, BlogContentInput, ContentProvider, ContentSection } from "./types";
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  // Forwarded to APIs that support seeded sampling; replay is best effort
+  seed: number;
+}
+
+// One round trip to a hosted model, returning its text reply
+export type Complete = (request: CompletionRequest) => Promise<string>;
+
+// The same request with the reply delivered as text fragments as they arrive
+export type CompleteStream = (request: CompletionRequest) => AsyncIterable<string>;
+
+const SYSTEM_PROMPT = "You are an experienced SEO content writer. Reply with the requested content only, with no preamble or closing remarks.";
+
+// Replies run roughly 1.4 tokens per English word; leave headroom for headings
+function tokensFor(words: number): number {
+  return Math.min(Math.ceil(words * 2), 8192);
+}
+
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```[a-z]*\n/i, "").replace(/\n```$/, "").trim();
+}
+
+// Split a list reply into items, dropping numbering, bullets and wrapping quotes
+function toLines(text: string): string[] {
+  return stripCodeFence(text)
+    .split("\n")
+    .map(line => line.trim().replace(/^(\d+[.)]|[-*•])\s+/, "").replace(/^["“](.*)["”]$/, "$1").trim())
+    .filter(Boolean);
+}
+
+function outlineForPrompt(sections: ContentSection[]): string {
+  return sections.map(section => [
+    `${"#".repeat(section.level)} ${section.heading}`,
+    ...(section.subsections || []).map(subsection => `${"#".repeat(section.level + 1)} ${subsection}`),
+  ].join("\n")).join("\n");
+}
+
+function audienceBrief(profile: Audience, audience?: string): string {
+  return `Target audience: ${audience || AUDIENCE_PROFILES[profile].label.toLowerCase()}. ${AUDIENCE_PROFILES[profile].guidance}`;
+}
+
+function budgetsForPrompt(sections: ContentSection[]): string {
+  return `Approximate words per section: ${sections.map(section => `${section.heading} ${section.targetWords}`).join("; ")}.`;
+}
+
+function brief(lines: (string | false | undefined)[]): string {
+  return lines.filter(Boolean).join("\n");
+}
+
+// The model is told not to repeat the title, but drop a leading H1 if it does
+function toMarkdownBody(reply: string): string {
+  const body = stripCodeFence(reply).replace(/^# .*\n+/, "").trim();
+  if (!body) {
+    throw new Error("Model returned an empty reply");
+  }
+  return body;
+}
+
+function cleanSection(text: string): string {
+  return text.replace(/^```[a-z]*$/gim, "").replace(/^# .*$/m, "").trim();
+}
+
+// Re-chunk streamed text into one markdown section per "## " heading, yielding
+// each section once the next heading shows that it is complete
+async function* splitSections(fragments: AsyncIterable<string>): AsyncGenerator<string> {
+  let buffer = "";
+  let yielded = false;
+  for await (const fragment of fragments) {
+    buffer += fragment;
+    const parts = buffer.split(/\n(?=## )/);
+    buffer = parts.pop() || "";
+    for (const part of parts) {
+      const section = cleanSection(part);
+      if (section) {
+        yielded = true;
+        yield section;
+      }
+    }
+  }
+  const last = cleanSection(buffer);
+  if (last) {
+    yield last;
+  } else if (!yielded) {
+    throw new Error("Model returned an empty reply");
+  }
+}
+
+// Wraps a completion function as a content provider. Any failed or unusable
+// reply falls back to the template engine, so a flaky API never breaks a tool.
+export function createLlmProvider(name: string, complete: Complete, completeStream?: CompleteStream): ContentProvider {
+  async function withFallback<T>(task: string, run: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      console.warn(`${name} provider could not ${task}, using templates instead:`, error instanceof Error ? error.message : error);
+      return fallback();
+    }
+  }
+
+  // A stream can only fall back before its first section has been sent
+  async function* streamWithFallback(task: string, run: () => AsyncIterable<string>, fallback: () => AsyncIterable<string>): AsyncGenerator<string> {
+    let started = false;
+    try {
+      for await (const section of run()) {
+        started = true;
+        yield section;
+      }
+    } catch (error) {
+      if (started) {
+        throw error;
+      }
+      console.warn(`${name} provider could not ${task}, using templates instead:`, error instanceof Error ? error.message : error);
+      yield* fallback();
+    }
+  }
+
+  // Models without a streaming API send their whole reply as one fragment
+  function stream(request: CompletionRequest): AsyncIterable<string> {
+    if (completeStream) {
+      return completeStream(request);
+    }
+    return (async function* () {
+      yield await complete(request);
+    })();
+  }
+
+  function blogRequest(random: Random, { title, sections, keywords, audience, audienceProfile, tone, targetWords }: BlogContentInput): CompletionRequest {
+    return {
+      system: SYSTEM_PROMPT,
+      prompt: brief([
+        `Write a blog post titled "${title}" in a ${tone} tone.`,
+        `Write in ${TONE_PROFILES[tone].voice}, averaging about ${TONE_PROFILES[tone].sentenceLength} words per sentence.`,
+        audienceBrief(audienceProfile, audience),
+        keywords && `Work these keywords in naturally: ${keywords}.`,
+        `Aim for about ${targetWords} words in markdown.`,
+        budgetsForPrompt(sections),
+        `Follow this outline exactly, keeping the headings as written and not repeating the title:`,
+        outlineForPrompt(sections),
+      ]),
+      maxTokens: tokensFor(targetWords),
+      seed: random.seed,
+    };
+  }
+
+  function articleRequest(random: Random, { topic, sections, keywords, audience, audienceProfile, style, targetWords }: ArticleContentInput): CompletionRequest {
+    return {
+      system: SYSTEM_PROMPT,
+      prompt: brief([
+        `Write a ${style} article about ${topic}.`,
+        ARTICLE_STYLE_GUIDANCE[style],
+        audienceBrief(audienceProfile, audience),
+        keywords && `Work these keywords in naturally: ${keywords}.`,
+        `Aim for about ${targetWords} words in markdown.`,
+        budgetsForPrompt(sections),
+        `Use exactly these section headings, in this order, and do not add a title:`,
+        outlineForPrompt(sections),
+      ]),
+      maxTokens: tokensFor(targetWords),
+      seed: random.seed,
+    };
+  }
+
+  return {
+    name,
+
+    generateBlogContent(random, input) {
+      return withFallback("write the blog post",
+        async () => toMarkdownBody(await complete(blogRequest(random, input))),
+        () => templateProvider.generateBlogContent(random, input));
+    },
+
+    streamBlogContent(random, input) {
+      return streamWithFallback("write the blog post",
+        () => splitSections(stream(blogRequest(random, input))),
+        () => templateProvider.streamBlogContent(random, input));
+    },
+
+    generateArticleContent(random, input) {
+      return withFallback("write the article",
+        async () => toMarkdownBody(await complete(articleRequest(random, input))),
+        () => templateProvider.generateArticleContent(random, input));
+    },
+
+    streamArticleContent(random, input) {
+      return streamWithFallback("write the article",
+        () => splitSections(stream(articleRequest(random, input))),
+        () => templateProvider.streamArticleContent(random, input));
+    },
+
+    generateMetaDescription(random, input) {
+      const { title, content, keywords } = input;
+      return withFallback("write a meta description", async () => {
+        const [description] = toLines(await complete({
+          system: SYSTEM_PROMPT,
+          prompt: brief([
+            `Write one meta description of at most ${META_DESCRIPTION_MAX_LENGTH} characters for the page "${title}".`,
+            keywords && `Mention the keyword "${keywords.split(",")[0].trim()}".`,
+            `The page begins:`,
+            content.slice(0, 1500),
+          ]),
+          maxTokens: 120,
+          seed: random.seed,
+        }));
+        if (!description) {
+          throw new Error("Model returned no meta description");
+        }
+        return truncateMetaDescription(description);
+      }, () => templateProvider.generateMetaDescription(random, input));
+    },
+
+    generateMetaDescriptionCandidates(random, title, options) {
+      const { audience, keywords, tone = "professional", brandName, count = 5 } = options;
+      return withFallback("write meta descriptions", async () => {
+        const descriptions = toLines(await complete({
+          system: SYSTEM_PROMPT,
+          prompt: brief([
+            `Write ${count} different meta descriptions for the page "${title}", one per line, each at most ${META_DESCRIPTION_MAX_LENGTH} characters.`,
+            `Use a ${tone} tone and include a call to action.`,
+            keywords && `Mention the keyword "${keywords.split(",")[0].trim()}" early.`,
+            audience && `Speak to ${audience.replace(/-/g, " ")}.`,
+            brandName && `End each one with the brand name ${brandName}.`,
+          ]),
+          maxTokens: 80 * count,
+          seed: random.seed,
+        })).map(truncateMetaDescription);
+        if (descriptions.length === 0) {
+          throw new Error("Model returned no meta descriptions");
+        }
+        // Scored the same way as template candidates so the ranking is comparable;
+        // the model may return more lines than were asked for
+        return rankMetaDescriptions(descriptions, title, options, random).slice(0, count);
+      }, () => templateProvider.generateMetaDescriptionCandidates(random, title, options));
+    },
+
+    generateSeoTitles(random, input) {
+      const { keywords, imageContext, count } = input;
+      return withFallback("write SEO titles", async () => {
+        const titles = toLines(await complete({
+          system: SYSTEM_PROMPT,
+          prompt: brief([
+            `Write ${count} different SEO titles of 50 to 60 characters, one per line, for content about: ${keywords.join(", ")}.`,
+            imageContext && `The content features an image of: ${imageContext}.`,
+            `Lead with the first keyword and use title case.`,
+          ]),
+          maxTokens: 40 * count,
+          seed: random.seed,
+        }));
+        if (titles.length === 0) {
+          throw new Error("Model returned no titles");
+        }
+        return titles.slice(0, count);
+      }, () => templateProvider.generateSeoTitles(random, input));
+    },
+  };
+}
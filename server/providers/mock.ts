@@ -0,0 +1,57 @@
+import { createRandom, rankMetaDescriptions, truncateMetaDescription } from "@shared/analysis";
+import type { ContentProvider, ContentSection } from "./types";
+
+// Predictable output for tests and offline demos. Every method ignores the
+// random source, so the same input always produces the same text, and section
+// bodies are padded to their word budgets.
+
+function filler(subject: string, words: number): string {
+  const sentence = `This placeholder paragraph discusses ${subject.toLowerCase()} in detail.`.split(" ");
+  const output: string[] = [];
+  while (output.length < words) {
+    output.push(...sentence);
+  }
+  return output.slice(0, Math.max(words, 1)).join(" ");
+}
+
+function mockSections(sections: ContentSection[]): string[] {
+  return sections.map(section => {
+    const subsections = section.subsections || [];
+    // Subsections share the section's budget with its opening paragraph
+    const share = Math.floor(section.targetWords / (subsections.length + 1));
+    const parts = [`${"#".repeat(section.level)} ${section.heading}`, filler(section.heading, share)];
+    subsections.forEach(subsection => {
+      parts.push(`${"#".repeat(section.level + 1)} ${subsection}`, filler(subsection, share));
+    });
+    return parts.join("\n\n");
+  });
+}
+
+export const mockProvider: ContentProvider = {
+  name: "mock",
+  async generateBlogContent(random, { sections }) {
+    return mockSections(sections).join("\n\n");
+  },
+  async *streamBlogContent(random, { sections }) {
+    yield* mockSections(sections);
+  },
+  async generateArticleContent(random, { sections }) {
+    return mockSections(sections).join("\n\n");
+  },
+  async *streamArticleContent(random, { sections }) {
+    yield* mockSections(sections);
+  },
+  async generateMetaDescription(random, { title }) {
+    return truncateMetaDescription(`Mock meta description for ${title}.`);
+  },
+  async generateMetaDescriptionCandidates(random, title, options) {
+    const count = options.count ?? 5;
+    const descriptions = Array.from({ length: count }, (_, index) => `Mock meta description ${index + 1} for ${title}.`);
+    // Every candidate scores the same, so ties are ordered by a fixed seed
+    return rankMetaDescriptions(descriptions, title, options, createRandom(0));
+  },
+  async generateSeoTitles(random, { keywords, count }) {
+    const subject = keywords.join(" ") || "content";
+    return Array.from({ length: count }, (_, index) => `Mock SEO Title ${index + 1}: ${subject}`);
+  },
+};
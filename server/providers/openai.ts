@@ -0,0 +1,37 @@
+import OpenAI from "openai";
+import type { Complete, CompleteStream, CompletionRequest } from "./llm";
+
+export interface OpenAiConfig {
+  apiKey: string;
+  model: string;
+  // Any OpenAI-compatible endpoint, e.g. a local server or a hosted router
+  baseURL?: string;
+}
+
+export function createOpenAiCompletion({ apiKey, model, baseURL }: OpenAiConfig): { complete: Complete; completeStream: CompleteStream } {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  const params = ({ system, prompt, maxTokens, seed }: CompletionRequest) => ({
+    model,
+    messages: [
+      { role: "system" as const, content: system },
+      { role: "user" as const, content: prompt },
+    ],
+    max_tokens: maxTokens,
+    seed,
+  });
+
+  return {
+    async complete(request) {
+      const completion = await client.chat.completions.create(params(request));
+      return completion.choices[0]?.message?.content || "";
+    },
+    async *completeStream(request) {
+      const stream = await client.chat.completions.create({ ...params(request), stream: true });
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
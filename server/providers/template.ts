@@ -0,0 +1,240 @@
+import {
+  SENTENCE_BOUNDARY,
+  AUDIENCE_PROFILES,
+  SUBSECTION_WEIGHT,
+  WORD_COUNT_TOLERANCE,
+  applyVocabulary,
+  countWords,
+  generateMetaDescriptionCandidates,
+  parseKeywordList,
+  type Random,
+} from "@shared/analysis";
+import type { Audience, Tone } from "@shared/schema";
+import { ARTICLE_ELABORATIONS, ARTICLE_SECTION_WRITERS, type ArticleStyle } from "./article-styles";
+import { TONE_BANKS, type ToneBank } from "./tone-banks";
+import type { ContentProvider, ContentSection } from "./types";
+
+type ElaborationBank = Pick<ToneBank, "points" | "examples">;
+
+// The built-in template engine. It needs no API key and, for a given seed,
+// always writes the same content, lengthened or trimmed to each section's
+// word budget.
+
+// The first target keyword, or the whole topic when none were given. Any one
+// word of the topic ("remote" for "remote work for teams") reads as a typo in
+// the sentences it is dropped into.
+function focusKeyword(topic: string, keywords?: string): string {
+  return parseKeywordList(keywords)[0] || topic.trim();
+}
+
+// Sections are written one at a time, in order, so streaming and the plain
+// endpoint draw from the random source identically
+function* blogSections(random: Random, sections: ContentSection[], title: string, keywords: string | undefined, tone: Tone, audience: Audience): Generator<string> {
+  yield* writeSections(random, sections, title, keywords, tone, audience);
+}
+
+// Sections can only stop on a sentence or paragraph boundary, so each one
+// carries the previous section's shortfall or overshoot into its own budget
+function* writeSections(random: Random, sections: ContentSection[], title: string, keywords: string | undefined, tone: Tone, audience: Audience, elaborations: ElaborationBank = TONE_BANKS[tone]): Generator<string> {
+  const elaborate = elaborationSource(random, elaborations, audience);
+  let carry = 0;
+
+  for (const section of sections) {
+    const targetWords = Math.max(section.targetWords + carry, 1);
+    const content = writeSection(random, { ...section, targetWords }, title, keywords, tone, audience, elaborate);
+    const bodyWords = countWords(content.split('\n').filter(line => !line.startsWith('#')).join('\n'));
+    carry = targetWords - bodyWords;
+    yield content;
+  }
+}
+
+function writeSection(random: Random, section: ContentSection, title: string, keywords: string | undefined, tone: Tone, audience: Audience, elaborate: Elaborate): string {
+  const keywordText = focusKeyword(title, keywords);
+  const subsections = section.subsections || [];
+
+  // Generate content based on section type
+  let body: string;
+  if (section.kind) {
+    body = ARTICLE_SECTION_WRITERS[section.kind](random, { topic: title, keyword: keywordText, heading: section.heading, targetWords: section.targetWords });
+  } else if (section.heading.toLowerCase().includes('introduction')) {
+    body = generateIntroduction(random, title, keywordText, tone);
+  } else if (section.heading.toLowerCase().includes('conclusion')) {
+    body = generateConclusion(random, keywordText, tone);
+  } else {
+    // Body sections open with an example of the kind the audience relates to
+    const [opening, ...rest] = generateSectionContent(random, section.heading, keywordText, tone).split('\n\n');
+    const example = random.pick(AUDIENCE_PROFILES[audience].examples(keywordText));
+    body = [opening, example, ...rest].join('\n\n');
+  }
+  body = applyVocabulary(body, audience);
+
+  // Subsections get their weighted share of the budget and the opening text
+  // absorbs whatever they leave over
+  const subsectionWords = Math.round(section.targetWords * SUBSECTION_WEIGHT / (1 + SUBSECTION_WEIGHT * subsections.length));
+  const written = subsections.map(sub =>
+    fitToWords(applyVocabulary(generateSubsectionContent(random, sub, keywordText, tone), audience), subsectionWords, () => elaborate(keywordText)));
+  const remaining = section.targetWords - written.reduce((total, text) => total + countWords(text), 0);
+
+  const fitted = section.fixedWords !== undefined ? body : fitToWords(body, remaining, () => elaborate(keywordText));
+  let content = `## ${section.heading}\n\n${fitted}`;
+  subsections.forEach((sub, index) => {
+    content += `\n\n### ${sub}\n\n${written[index]}`;
+  });
+
+  return content.trim();
+}
+
+type Elaborate = (keyword: string) => string;
+
+// Hands out point and example pairs in shuffled orders shared by the whole
+// post, so a sentence only comes round again once its bank is used up
+function elaborationSource(random: Random, bank: ElaborationBank, audience: Audience): Elaborate {
+  let points: number[] = [];
+  let examples: number[] = [];
+
+  return keyword => {
+    const pointBank = bank.points(keyword);
+    const exampleBank = bank.examples(keyword);
+    if (points.length === 0) points = random.shuffle(pointBank.map((_, index) => index));
+    if (examples.length === 0) examples = random.shuffle(exampleBank.map((_, index) => index));
+    return applyVocabulary(`${pointBank[points.shift()!]} ${exampleBank[examples.shift()!]}`, audience);
+  };
+}
+
+// Grow or trim a passage toward its word budget, stopping once it is within
+// tolerance or the next step would land further from the target. Added
+// paragraphs follow the opening paragraph, or the list it introduces, leaving
+// lists, the paragraphs that refer back to them and calls to action where they
+// were written.
+function fitToWords(text: string, targetWords: number, more: () => string): string {
+  const words = (parts: string[]) => countWords(parts.join('\n\n'));
+  const closer = (next: string[], current: string[]) => Math.abs(words(next) - targetWords) < Math.abs(words(current) - targetWords);
+  let blocks = text.split('\n\n');
+  let at = 1;
+  while (at < blocks.length && blocks[at - 1].trim().endsWith(':')) {
+    at++;
+  }
+
+  while (words(blocks) < targetWords * (1 - WORD_COUNT_TOLERANCE)) {
+    const grown = [...blocks.slice(0, at), more(), ...blocks.slice(at)];
+    if (!closer(grown, blocks)) break;
+    blocks = grown;
+    at++;
+  }
+
+  while (words(blocks) > targetWords * (1 + WORD_COUNT_TOLERANCE)) {
+    const trimmed = shorten(blocks);
+    if (!trimmed || !closer(trimmed, blocks)) break;
+    blocks = trimmed;
+  }
+
+  return blocks.join('\n\n');
+}
+
+// One trimming step: drop the last list item, the last sentence, or the last
+// block, taking a lead-in line ("Here's what works:") with the list it introduced
+function shorten(blocks: string[]): string[] | null {
+  const rest = blocks.slice(0, -1);
+  const last = blocks[blocks.length - 1];
+  const lines = last.split('\n');
+  if (lines.length > 2) {
+    return [...rest, lines.slice(0, -1).join('\n')];
+  }
+
+  const sentences = last.split(SENTENCE_BOUNDARY);
+  if (lines.length === 1 && sentences.length > 1) {
+    return [...rest, sentences.slice(0, -1).join(' ')];
+  }
+
+  if (rest.length === 0) {
+    return null;
+  }
+  while (rest.length > 1 && rest[rest.length - 1].trim().endsWith(':')) {
+    rest.pop();
+  }
+  return rest;
+}
+
+function generateIntroduction(random: Random, title: string, keywordText: string, tone: Tone = 'professional'): string {
+  const bank = TONE_BANKS[tone];
+
+  return random.pick(bank.intros(keywordText, title)) + random.pick(bank.introFollowUps);
+}
+
+function generateConclusion(random: Random, keywordText: string, tone: Tone = 'professional'): string {
+  const bank = TONE_BANKS[tone];
+
+  return random.pick(bank.conclusions(keywordText)) + random.pick(bank.actionCalls);
+}
+
+function generateSectionContent(random: Random, heading: string, keywordText: string, tone: Tone = 'professional'): string {
+  return random.pick(TONE_BANKS[tone].sections(heading, keywordText));
+}
+
+function generateSubsectionContent(random: Random, heading: string, keywordText: string, tone: Tone = 'professional'): string {
+  return random.pick(TONE_BANKS[tone].subsections(heading, keywordText));
+}
+
+// Articles keep a professional voice; their styles differ in shape, which
+// comes from each section's kind, and in the register of any added material
+function* articleSections(random: Random, structure: ContentSection[], topic: string, keywords: string | undefined, style: ArticleStyle, audience: Audience): Generator<string> {
+  yield* writeSections(random, structure, topic, keywords, 'professional', audience, ARTICLE_ELABORATIONS[style]);
+}
+
+function generateMetaDescription(title: string, content: string, keywords?: string): string {
+  const keywordText = focusKeyword(title, keywords);
+  const description = `Discover everything you need to know about ${title.toLowerCase()}. Learn practical strategies, expert tips, and best practices for ${keywordText}. Complete guide with actionable insights.`;
+
+  return description.length > 160 ? description.substring(0, 157) + "..." : description;
+}
+
+function generateMultipleSeoTitles(random: Random, keywords: string[], imageContext?: string, count = 5): string[] {
+  const primaryKeyword = keywords[0] || 'content';
+  const secondaryKeyword = keywords[1] || 'guide';
+  const tertiaryKeyword = keywords[2] || 'tips';
+
+  const humanizedTemplates = [
+    `The Complete Guide to ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)}: Everything You Need to Know`,
+    `Master the Art of ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} with These Professional Techniques`,
+    `${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} Made Simple: A Step-by-Step Guide for Beginners`,
+    `Discover the Secrets of Stunning ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} Photography`,
+    `From Amateur to Expert: Your Journey to Perfect ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)}`,
+    `The Ultimate ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} Handbook: Tips, Tricks, and Techniques`,
+    `Capturing Beautiful ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)}: A Photographer's Guide`,
+    `${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} Excellence: How to Create Stunning Visual Content`,
+    `The Art and Science of ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} Photography`,
+    `Transform Your ${capitalizeFirst(primaryKeyword)} ${capitalizeFirst(secondaryKeyword)} Skills with These Expert Tips`
+  ];
+
+  // Select `count` different titles
+  return random.shuffle(humanizedTemplates).slice(0, count);
+}
+
+function capitalizeFirst(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+export const templateProvider: ContentProvider = {
+  name: "template",
+  async generateBlogContent(random, { title, sections, keywords, tone, audienceProfile }) {
+    return Array.from(blogSections(random, sections, title, keywords, tone, audienceProfile)).join('\n\n');
+  },
+  async *streamBlogContent(random, { title, sections, keywords, tone, audienceProfile }) {
+    yield* blogSections(random, sections, title, keywords, tone, audienceProfile);
+  },
+  async generateArticleContent(random, { topic, sections, keywords, style, audienceProfile }) {
+    return Array.from(articleSections(random, sections, topic, keywords, style, audienceProfile)).join('\n\n');
+  },
+  async *streamArticleContent(random, { topic, sections, keywords, style, audienceProfile }) {
+    yield* articleSections(random, sections, topic, keywords, style, audienceProfile);
+  },
+  async generateMetaDescription(random, { title, content, keywords }) {
+    return generateMetaDescription(title, content, keywords);
+  },
+  async generateMetaDescriptionCandidates(random, title, options) {
+    return generateMetaDescriptionCandidates(title, options, random);
+  },
+  async generateSeoTitles(random, { keywords, imageContext, count }) {
+    return generateMultipleSeoTitles(random, keywords, imageContext, count);
+  },
+};
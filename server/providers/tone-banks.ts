@@ -0,0 +1,221 @@
+import type { Tone } from "@shared/schema";
+
+// Phrase banks for the template writer, one per tone. Each bank follows the
+// sentence length and voice in TONE_PROFILES (shared/analysis/tone.ts) so the
+// tone detector recognises what it produces.
+export interface ToneBank {
+  intros: (keyword: string, title: string) => string[];
+  introFollowUps: string[];
+  conclusions: (keyword: string) => string[];
+  actionCalls: string[];
+  sections: (heading: string, keyword: string) => string[];
+  subsections: (heading: string, keyword: string) => string[];
+  // Paragraphs that lengthen a passage are one point followed by one example
+  points: (keyword: string) => string[];
+  examples: (keyword: string) => string[];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export const TONE_BANKS: Record<Tone, ToneBank> = {
+  professional: {
+    intros: (keyword, title) => [
+      `${capitalize(title)} has become a priority for organizations that want consistent and measurable results. In this guide, we outline how ${keyword} works, where it delivers value, and how teams can put it into practice.`,
+      `Teams that invest in ${keyword} tend to make better decisions with fewer resources. This article summarizes the approach we recommend, based on established practice and the results we have observed across our projects.`,
+      `Understanding ${keyword} is essential for any team that wants to improve its outcomes in a structured way. The following sections explain the core principles, the common pitfalls, and a practical framework for implementation.`,
+    ],
+    introFollowUps: [
+      `\n\nEach section builds on the previous one. We begin with the fundamentals, move on to implementation, and close with recommendations that our clients apply immediately within their organizations.`,
+      `\n\nThe guidance below is intended to be practical. Where possible, we include clear criteria for evaluating progress so that your team can measure the impact of each change it makes.`,
+    ],
+    conclusions: (keyword) => [
+      `${capitalize(keyword)} delivers the strongest results when it is treated as an ongoing process rather than a single project. The principles covered in this guide provide a reliable foundation for that process across the organization.`,
+      `In summary, a structured approach to ${keyword} reduces risk and improves consistency for every team involved. Organizations that document their process and review it regularly are best positioned to benefit from it.`,
+    ],
+    actionCalls: [
+      `\n\nAs a next step, we recommend selecting one priority area, defining clear objectives and success metrics, and scheduling a review after the first month. This creates a feedback loop that supports steady, measurable improvement.`,
+      `\n\nTo move forward, assign clear ownership for each initiative and share progress with stakeholders on a regular schedule. Consistent reporting keeps the work visible and aligned with the broader objectives of the organization.`,
+    ],
+    sections: (heading, keyword) => [
+      `${heading} is an area where a clear process makes a measurable difference. Our experience shows that teams which define their approach in advance achieve more consistent results with ${keyword} than teams which do not.\n\nThe following practices form a reliable starting point for most organizations:\n\n- Define objectives and success metrics before the work begins\n- Document the process so that it can be repeated and improved over time\n- Review results on a regular schedule and adjust priorities accordingly\n- Communicate progress clearly to every stakeholder involved in the work\n\nWhen these practices are in place, ${keyword} becomes easier to manage and easier to scale across the organization. The investment in structure pays for itself through fewer errors, faster delivery and more predictable outcomes.`,
+      `A practical approach to ${heading.toLowerCase()} starts with an honest assessment of current performance. We recommend gathering baseline data before making any changes, because it allows our team and yours to measure the impact of each decision accurately.\n\nThe key considerations at this stage include the following questions:\n\n- Which outcomes matter most to the organization and its stakeholders\n- What budget, time and people are available for ${keyword}\n- How progress will be tracked, reported and reviewed over time\n\nWith these questions answered, the team can prioritize the initiatives that offer the greatest return and set realistic timelines for each one. This structured framework keeps everyone aligned on the same measurable objectives.`,
+    ],
+    subsections: (heading, keyword) => [
+      `For ${heading.toLowerCase()}, we recommend a measured approach. Establish a clear baseline, apply one change at a time, and evaluate the effect on ${keyword} before the team moves on to the next step.`,
+      `${heading} benefits from clear documentation of the process. When the process is written down, our teams can apply ${keyword} consistently and identify improvements much more quickly.`,
+      `In our experience, ${heading.toLowerCase()} is most effective when responsibilities are clearly assigned. This ensures that every part of the ${keyword} process has an owner and a defined, measurable standard.`,
+    ],
+    points: (keyword) => [
+      `We recommend treating ${keyword} as a repeatable process rather than a series of isolated tasks. A documented process allows teams to onboard new members quickly and to maintain consistent quality as the workload grows.`,
+      `Clear objectives are the foundation of effective ${keyword}. When every initiative is tied to a measurable outcome, our teams can prioritize with confidence and explain those priorities clearly to stakeholders.`,
+      `In our experience, the organizations that succeed with ${keyword} invest early in shared standards. Templates, checklists and review criteria reduce variation and make the results of each change easier to evaluate.`,
+      `Resource planning deserves careful attention as well. We advise teams to estimate the time each part of the ${keyword} process requires and to revisit those estimates once real data is available.`,
+      `Collaboration across functions is another decisive factor. ${capitalize(keyword)} touches several parts of the organization, so we involve the relevant stakeholders at the planning stage rather than after decisions are made.`,
+      `A structured review cycle keeps ${keyword} aligned with business objectives. We schedule brief monthly reviews and a more thorough quarterly assessment, which balances responsiveness with strategic consistency.`,
+      `Measurement should be proportionate to the decision at hand. We recommend a small set of core metrics for ${keyword}, supported by more detailed reporting only where a specific question requires it.`,
+      `Risk management is often overlooked in this area. Our framework identifies the dependencies behind each ${keyword} initiative early, so that the team can address potential delays before they affect delivery.`,
+    ],
+    examples: (keyword) => [
+      `For example, one of our clients reduced its turnaround time by a third after introducing a simple approval checklist. The checklist removed ambiguity about ownership and shortened every review cycle.`,
+      `In one recent engagement, we helped a marketing team replace ad hoc reporting with a shared dashboard. Within a quarter, the team was making faster decisions based on consistent and measurable data.`,
+      `A mid-sized organization we worked with had strong individual contributors but no common process. Documenting a shared workflow improved consistency and made quality reviews considerably more efficient.`,
+      `We have seen teams achieve measurable gains simply by agreeing on definitions. When every stakeholder uses the same terms and metrics, discussions become shorter and decisions become easier to defend.`,
+      `One practical technique we recommend is a short retrospective after each major initiative. The team records what worked, what did not, and which changes should be adopted as standard practice.`,
+      `In another case, a team that had been pursuing ten objectives at once narrowed its focus to three. Progress on those three objectives improved markedly, and stakeholder confidence increased as a result.`,
+      `Several of our clients now maintain a central library of approved templates and guidelines. This library has become a reliable reference for new team members and a safeguard for consistent quality.`,
+      `We also encourage teams to pilot significant changes with a limited scope before a full rollout. A controlled pilot produces measurable evidence and reduces the risk of disruption across the organization.`,
+    ],
+  },
+  casual: {
+    intros: (keyword, title) => [
+      `I've been working with ${keyword} for quite some time now, and I can tell you it's one of those topics that really makes a difference. When I first started exploring ${title.toLowerCase()}, I wasn't sure what to expect.`,
+      `Let me share something with you about ${keyword}. Over the years, I've noticed that most people either overcomplicate it or don't give it the attention it deserves. The truth is, ${keyword} can transform your approach if you understand it properly.`,
+      `Have you ever wondered why some people seem to excel at ${keyword} while others struggle? After working in this field and helping countless individuals, I've identified the key factors that make all the difference.`,
+      `Here's what I wish someone had told me when I was starting with ${keyword}. It's not as complicated as it might seem, but there are definitely some important things you need to know.`,
+    ],
+    introFollowUps: [
+      `\n\nWhat I'm going to share with you in this guide comes from real experience – both my successes and mistakes. I'll walk you through each step, explain why certain approaches work better than others, and give you practical examples you can use right away.`,
+      `\n\nThroughout this article, I'll be sharing insights that come from hands-on experience. These aren't just theoretical concepts – they're strategies that have proven to work time and again. By the time you finish reading, you'll have a solid roadmap to follow.`,
+      `\n\nI believe in keeping things practical and straightforward. That's why everything I'll cover here is based on real-world applications and proven methods. You won't find any fluff or overly complex theories – just actionable advice you can start using today.`,
+    ],
+    conclusions: (keyword) => [
+      `Looking back at everything we've covered, ${keyword} really isn't as intimidating as it might have seemed at first. The key is to start with the basics and build from there. Don't try to implement everything at once – that's a recipe for overwhelm.`,
+      `I hope this guide has given you a clearer picture of how ${keyword} works and why it matters. From my experience, the people who succeed are those who take consistent action, even if it's just small steps at first.`,
+      `As we wrap this up, remember that becoming proficient with ${keyword} is a journey, not a destination. I'm still learning new things about it regularly, and that's part of what makes it interesting.`,
+    ],
+    actionCalls: [
+      `\n\nHere's what I'd suggest as your next steps: pick one or two strategies from what we've discussed and focus on those first. Once you're comfortable with them, you can gradually add more techniques to your toolkit. And don't be afraid to experiment – some of my best discoveries came from trying things that weren't in any textbook.`,
+      `\n\nIf you take away just one thing from this article, let it be this: consistency beats perfection every time. It's better to apply these concepts imperfectly on a regular basis than to wait for the perfect moment that never comes. Start where you are, use what you have, and do what you can.`,
+      `\n\nI'd love to hear about your experiences as you start implementing these ideas. Everyone's situation is different, and what works perfectly for one person might need tweaking for another. That's normal and expected – the important thing is to get started.`,
+    ],
+    sections: (heading, keyword) => [
+      `Now, let's talk about ${heading.toLowerCase()}. This is where things get interesting, and honestly, it's something I see people struggle with more often than they should.\n\nWhat I've learned over the years is that ${keyword} isn't just about following a set formula. Sure, there are best practices, but the real magic happens when you understand the why behind what you're doing.\n\nHere's what has worked well for me:\n\n- Start with the fundamentals, but don't be afraid to adapt them to your specific situation\n- Pay attention to what your audience actually responds to, not just what the experts say\n- Test different approaches and keep track of what works\n- Be patient with the process – good results take time to develop\n\nOne thing I always tell people is that there's no substitute for real-world experience. You can read all the guides in the world, but until you actually start implementing and seeing what happens, you won't truly understand how it all fits together.`,
+      `${heading} is one of those areas where I see a lot of confusion. People often overthink it or, on the flip side, don't give it enough attention. Let me break down what actually matters.\n\nFirst off, ${keyword} isn't as complicated as some make it out to be. But it does require a thoughtful approach. I've made my share of mistakes here, and each one taught me something valuable.\n\nWhat I wish I'd known earlier:\n\n- Quality always beats quantity – it's better to do fewer things well\n- Consistency matters more than perfection\n- Your approach should evolve as you learn and grow\n- Don't ignore feedback, even when it's uncomfortable\n\nThe biggest game-changer for me was realizing that ${keyword} works best when it feels natural and authentic. When you try to force it or follow someone else's formula exactly, it usually shows.`,
+      `Here's something I've noticed about ${heading.toLowerCase()}: most people either go all-in from day one and burn out, or they never really give it a proper chance. The sweet spot is somewhere in between.\n\nWhen I first encountered ${keyword}, I made the mistake of trying to do everything at once. It was overwhelming and, frankly, not very effective. Now I take a more measured approach.\n\nMy current strategy looks like this:\n\n- Pick one or two key areas to focus on initially\n- Spend time understanding the fundamentals before moving to advanced techniques\n- Keep detailed notes on what works and what doesn't\n- Regularly review and adjust my approach based on results\n- Connect with others who are on a similar journey\n\nWhat's really helped me is treating this as an ongoing learning process rather than something to master once and forget about. The landscape keeps evolving, and staying curious has served me well.`,
+    ],
+    subsections: (heading, keyword) => [
+      `When it comes to ${heading.toLowerCase()}, I've found that the key is to keep things simple but deliberate. Don't overcomplicate it – focus on what actually moves the needle for ${keyword} and you'll see better results.`,
+      `${heading} might seem straightforward, but there are some nuances worth mentioning. Most people rush through this part, but taking time to really understand ${keyword} here pays dividends later on.`,
+      `I used to struggle with ${heading.toLowerCase()} until I realized it's all about finding the right balance. Now I approach ${keyword} with a mix of structure and flexibility, which has worked much better for me.`,
+      `Here's what I've learned about ${heading.toLowerCase()}: it's not about perfection, it's about progress. Each time you work with ${keyword}, you'll get a little better at recognizing what works and what doesn't.`,
+    ],
+    points: (keyword) => [
+      `Something I don't see discussed enough is how much ${keyword} depends on timing. I've had ideas flop in one month and work beautifully the next, with almost nothing changed except when I tried them.`,
+      `Honestly, the best thing I ever did for my ${keyword} work was to slow down. I used to chase every new trick, and it left me with a pile of half-finished experiments and not much to show for them.`,
+      `I'll admit that I used to think ${keyword} was mostly about tools. It's not. The tools help, sure, but the thinking behind how you use them matters a lot more than which ones you pick.`,
+      `A lot of the advice out there about ${keyword} sounds great on paper and falls apart in practice. I've learned to try things on a small scale first before I commit to anything big.`,
+      `One habit that's paid off for me is writing down what I expect to happen before I try something new with ${keyword}. It keeps me honest when the results come in.`,
+      `I've found that ${keyword} gets a lot easier once you stop comparing your progress to everyone else's. Most of the people I looked up to were years ahead of me, and that's fine.`,
+      `Here's a pattern I keep noticing: the people who get the most out of ${keyword} are rarely the ones with the fanciest setup. They're the ones who keep showing up and tweaking things week after week.`,
+      `I don't think there's a single right way to handle ${keyword}, and I'm pretty suspicious of anyone who says there is. What works depends a lot on your goals and the time you've actually got.`,
+    ],
+    examples: (keyword) => [
+      `A while back, I spent a whole weekend rebuilding my approach from scratch. It felt productive at the time, but looking back, small weekly changes would've gotten me further with a lot less stress.`,
+      `For example, when I started tracking just one simple number each week, I finally saw which changes mattered. It wasn't glamorous stuff, but it told me more than any guide I'd read.`,
+      `I remember a friend asking me why my results had improved so quickly. The honest answer was that I'd stopped doing three things that weren't working, which freed up time for the one thing that was.`,
+      `Last year I tried copying a strategy that had worked brilliantly for someone else. It flopped for me, and that taught me more about my own situation than a dozen successes would have.`,
+      `These days I keep a simple running list of what I've tried and how it went. It's pretty messy, but whenever I'm stuck, that list usually points me in the right direction.`,
+      `When I finally asked a few people for blunt feedback, I was surprised by how much I'd missed. It stung a little, but it saved me months of going in the wrong direction.`,
+      `One small change I made was setting aside the same hour every week just for this. It sounds minor, but that routine did more for my progress than any big burst of effort ever did.`,
+      `I once ignored a small problem for months because it didn't seem urgent. By the time I dealt with it, it had quietly undone a lot of my earlier work, so now I fix things early.`,
+    ],
+  },
+  friendly: {
+    intros: (keyword, title) => [
+      `Welcome! Curious about ${keyword}? You're in the right place. We'll explore ${title.toLowerCase()} together. Don't worry if it feels new. You've got this!`,
+      `So you want to get better at ${keyword}? That's great! You don't need to be an expert. You just need a little guidance. And that's what you'll find here.`,
+      `Let's be honest. ${capitalize(keyword)} can feel big at first. The good news? It gets easier fast. Soon you'll feel ready to try it yourself!`,
+    ],
+    introFollowUps: [
+      `\n\nWe'll keep things simple. You'll get clear tips and easy steps. Ready? Let's dive in together!`,
+      `\n\nGrab a coffee and get comfy. We'll start with the basics. Then we'll build from there. Go at your own pace!`,
+    ],
+    conclusions: (keyword) => [
+      `And that's a wrap! You now know the basics of ${keyword}. Every expert started as a beginner. Be kind to yourself as you learn.`,
+      `You made it to the end! Great work. ${capitalize(keyword)} is a skill you can keep growing. You've already taken the biggest step!`,
+    ],
+    actionCalls: [
+      `\n\nWhy not try one tip this week? Start small. Celebrate your progress. You'll love how quickly it adds up!`,
+      `\n\nGot a question or a win to share? We'd love to hear it! Keep going and come back anytime. You've got this!`,
+    ],
+    sections: (heading, keyword) => [
+      `Let's talk about ${heading.toLowerCase()}. It's easier than it looks, we promise! Here's how you can make it work.\n\nTry these simple steps:\n\n- Start with what you know\n- Take one small step at a time\n- Ask for help when you need it\n- Celebrate every win!\n\nYou don't have to be perfect. Just keep showing up. Your ${keyword} skills will grow fast!`,
+      `Ready for ${heading.toLowerCase()}? You're going to enjoy this one! It's where ${keyword} really clicks.\n\nHere are a few friendly tips:\n\n- Keep it simple at first\n- Notice what works for you\n- Have fun with it!\n\nThere's no rush. Go at your own pace. We're cheering for you!`,
+    ],
+    subsections: (heading, keyword) => [
+      `Here's a quick tip for ${heading.toLowerCase()}. Keep it simple! Focus on one part of ${keyword} at a time.`,
+      `Don't stress about ${heading.toLowerCase()}. You can always adjust as you go. You're learning ${keyword} every day!`,
+      `You'll love how easy ${heading.toLowerCase()} becomes. Just give it a try. Your ${keyword} will thank you!`,
+    ],
+    points: (keyword) => [
+      `Here's a little secret. ${capitalize(keyword)} gets easier with practice. Every small step counts. You're doing great already!`,
+      `Don't worry about getting it perfect. Nobody does at first! Just try something. Then try again. That's how you learn.`,
+      `Want a simple trick? Focus on one thing at a time. It keeps ${keyword} fun. And you'll see progress sooner!`,
+      `Remember, you're not alone in this. Lots of people are learning ${keyword} too. Find them! Learning together is more fun.`,
+      `Feeling stuck? That's totally normal. Take a short break. Come back with fresh eyes. You'll be surprised what you notice!`,
+      `Be proud of how far you've come. Seriously! Look back at where you started. Then celebrate your progress with ${keyword}.`,
+      `Keep your goals small and friendly. A tiny win today beats a huge plan for someday. You'll love the momentum!`,
+      `Curiosity is your best friend here. Ask questions. Try new ideas. Enjoy the process of getting better at ${keyword}!`,
+    ],
+    examples: (keyword) => [
+      `Try this today. Pick one tiny task. Give it ten minutes. Then notice how good it feels to finish!`,
+      `Here's an easy idea. Write down one thing you learned this week. It's a great way to see your growth!`,
+      `Why not ask a friend to join you? You can share tips and cheer each other on. It's so much more fun!`,
+      `A quick example: set a small goal for Friday. Reach it? Wonderful! Treat yourself to something nice.`,
+      `Picture this. A month from now, you look back at today. You'll be amazed at how much you've learned!`,
+      `Here's a fun challenge. Try one new approach this week. See what happens. You might love the results!`,
+      `Got five minutes? Review what worked last time. Keep the good parts. Let the rest go. Easy!`,
+      `Think of a time you learned something new. It felt hard at first, right? Then it clicked. This will too!`,
+    ],
+  },
+  authoritative: {
+    intros: (keyword, title) => [
+      `${capitalize(title)} is not optional for organizations that intend to compete effectively. The evidence is consistent: disciplined application of ${keyword} produces measurable gains in efficiency, quality and long-term performance in every sector where it has been studied.`,
+      `Research and industry data point to the same conclusion regarding ${keyword}: the fundamentals must be mastered before advanced techniques can deliver results. This guide sets out those fundamentals, the proven methods built on them and the standards by which success must be measured.`,
+      `Few disciplines reward rigor as reliably as ${keyword}. Practitioners who follow established principles consistently outperform those who improvise, and studies conducted over many years demonstrate the size of that advantage clearly.`,
+    ],
+    introFollowUps: [
+      `\n\nThe sections that follow present the essential principles in order of importance. Each recommendation reflects established best practice and is supported by documented evidence rather than opinion or anecdote.`,
+      `\n\nWhat follows is a definitive framework for the discipline. It identifies the critical success factors, the errors that most commonly undermine results and the criteria that experts use to evaluate performance.`,
+    ],
+    conclusions: (keyword) => [
+      `The principles outlined here represent the established standard for ${keyword}. Organizations that apply them rigorously achieve superior results, while those that ignore them consistently fall behind their competitors over time.`,
+      `The case for a disciplined approach to ${keyword} is clear. The evidence demonstrates that consistent application of proven methods is the single most reliable predictor of long-term success in the field.`,
+    ],
+    actionCalls: [
+      `\n\nImplementation must begin with an audit of current practice against these standards. Every gap identified must be assigned an owner, a deadline and a measurable target, and progress must be reviewed at fixed intervals.`,
+      `\n\nThe next step is unambiguous: adopt these principles as formal policy, train every contributor in their application and measure compliance rigorously. Anything less leaves significant and proven results unrealized.`,
+    ],
+    sections: (heading, keyword) => [
+      `${heading} is a critical component of any effective ${keyword} strategy. Studies consistently show that organizations which treat it as a priority achieve significantly better outcomes than those which do not.\n\nThe essential requirements are well established across the industry:\n\n- Objectives must be defined precisely and measured against reliable data\n- Processes must be documented, standardized and audited at regular intervals\n- Decisions must be based on evidence rather than assumption or habit\n- Performance must be reviewed against recognized industry benchmarks\n\nFailure to meet these requirements is the most common reason that ${keyword} initiatives underperform. Strict adherence to them is the most reliable path to sustained, measurable success over the long term.`,
+      `The evidence on ${heading.toLowerCase()} is unambiguous. Experts agree that a systematic approach produces superior results, and the data collected across the industry supports that conclusion without meaningful exception.\n\nThree principles are fundamental to the established standard in this area:\n\n- Consistency of execution matters more than the sophistication of the method chosen\n- Measurement against reliable data is required at every stage of the ${keyword} process\n- Standards must be enforced rigorously across the organization rather than merely recommended\n\nOrganizations that apply these principles with discipline establish a lasting competitive advantage in ${keyword}, and the research shows that this advantage compounds over time.`,
+    ],
+    subsections: (heading, keyword) => [
+      `${heading} demands precision and discipline, because the established standard requires that every decision affecting ${keyword} be documented, justified by reliable data and reviewed against clear performance criteria.`,
+      `Research demonstrates that ${heading.toLowerCase()} is a decisive factor in overall performance, and neglecting it undermines the effectiveness of every other element of ${keyword} in ways that are costly to reverse.`,
+      `The proven method for ${heading.toLowerCase()} is straightforward: define the standard, measure performance against it and correct every deviation immediately, a discipline that separates leading practitioners of ${keyword} from the rest.`,
+    ],
+    points: (keyword) => [
+      `The research on ${keyword} is consistent on one point: sustained performance depends on disciplined execution rather than on any single technique. Organizations that lack a rigorous operating standard rarely maintain early gains.`,
+      `Measurement is a critical requirement, not an optional refinement. Without reliable data, decisions about ${keyword} rest on assumption, and studies show that assumption-driven programs underperform by a substantial margin.`,
+      `Experts distinguish sharply between activity and progress. A high volume of ${keyword} work demonstrates effort, but only outcomes measured against an established baseline demonstrate effectiveness.`,
+      `Standardization is the mechanism through which quality becomes repeatable. Every critical step in ${keyword} must be defined precisely enough that different practitioners produce comparable results.`,
+      `The evidence also shows that prioritization determines results more than total investment does. Resources spread across too many initiatives produce weaker outcomes than resources concentrated on proven priorities.`,
+      `Governance must be explicit. Clear accountability for each element of ${keyword}, combined with regular audits against the established standard, is the most reliable safeguard against gradual decline in quality.`,
+      `Long-term studies demonstrate that incremental improvement compounds. Small, validated gains in ${keyword}, applied consistently over time, outperform ambitious but irregular efforts by a wide and measurable margin.`,
+      `Expert practitioners treat every assumption as a hypothesis to be tested. This discipline prevents costly errors in ${keyword} and ensures that strategy remains grounded in current evidence rather than outdated belief.`,
+    ],
+    examples: (keyword) => [
+      `Industry data illustrates the point clearly: programs with documented standards report significantly fewer errors and markedly faster delivery than programs that rely on individual judgement alone.`,
+      `A common failure pattern is instructive. Teams adopt a new method, skip the baseline measurement, and later cannot determine whether the method produced any improvement at all.`,
+      `Comparative research across many organizations reaches the same conclusion: those that audit their processes at fixed intervals identify problems earlier and correct them at a fraction of the cost.`,
+      `The established benchmark in mature programs is a formal review at least once per quarter. Organizations that meet this standard consistently outperform those that review only when problems become visible.`,
+      `Field studies demonstrate that clearly documented procedures reduce onboarding time substantially. New practitioners reach the required standard faster because expectations are explicit rather than implicit.`,
+      `Experience across the industry confirms that neglected fundamentals are the most frequent cause of decline. Advanced techniques cannot compensate for weak measurement, unclear ownership or inconsistent execution.`,
+      `Evidence from controlled pilots is particularly valuable. A limited trial with rigorous measurement provides the data required to justify, adjust or reject a change before it is applied at scale.`,
+      `Expert reviews of underperforming programs identify the same critical gaps repeatedly: undefined objectives, unreliable data and the absence of an enforced standard for execution.`,
+    ],
+  },
+};
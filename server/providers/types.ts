@@ -0,0 +1,64 @@
+import type { ArticleRequest, Audience, MetaDescriptionCandidate, Tone } from "@shared/schema";
+import type { MetaDescriptionOptions, Random } from "@shared/analysis";
+import type { ArticleSectionKind } from "./article-styles";
+
+export interface ContentSection {
+  heading: string;
+  level: number;
+  subsections?: string[];
+  // Body words the section should run to, subsections included
+  targetWords: number;
+  // Article sections with a shape of their own, such as numbered steps
+  kind?: ArticleSectionKind;
+  // Set on sections written at a fixed length, such as a reference list
+  fixedWords?: number;
+}
+
+export interface BlogContentInput {
+  title: string;
+  sections: ContentSection[];
+  keywords?: string;
+  // The reader's own description, and the profile it was matched to
+  audience?: string;
+  audienceProfile: Audience;
+  tone: Tone;
+  targetWords: number;
+}
+
+export interface ArticleContentInput {
+  topic: string;
+  sections: ContentSection[];
+  keywords?: string;
+  audience?: string;
+  audienceProfile: Audience;
+  style: ArticleRequest["style"];
+  targetWords: number;
+}
+
+// Meta description for a finished post or article
+export interface PostMetaDescriptionInput {
+  title: string;
+  content: string;
+  keywords?: string;
+}
+
+export interface SeoTitleInput {
+  keywords: string[];
+  imageContext?: string;
+  count: number;
+}
+
+// Everything the writing tools generate goes through a provider. Each method
+// receives the request's random source first; providers that cannot replay a
+// seed exactly may use it as a hint or ignore it. The stream methods yield one
+// markdown section per top-level heading, in order.
+export interface ContentProvider {
+  readonly name: string;
+  generateBlogContent(random: Random, input: BlogContentInput): Promise<string>;
+  streamBlogContent(random: Random, input: BlogContentInput): AsyncIterable<string>;
+  generateArticleContent(random: Random, input: ArticleContentInput): Promise<string>;
+  streamArticleContent(random: Random, input: ArticleContentInput): AsyncIterable<string>;
+  generateMetaDescription(random: Random, input: PostMetaDescriptionInput): Promise<string>;
+  generateMetaDescriptionCandidates(random: Random, title: string, options: MetaDescriptionOptions): Promise<MetaDescriptionCandidate[]>;
+  generateSeoTitles(random: Random, input: SeoTitleInput): Promise<string[]>;
+}
@@ -0,0 +1,51 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { mockProvider, templateProvider } from "./providers";
+import { startTestApp } from "./test-app";
+
+// Every seeded endpoint, with an article in each style so style-specific text
+// such as the news dateline is covered
+const REQUESTS: [string, Record<string, unknown>][] = [
+  ["/api/blog-post", { title: "Remote work for teams", tone: "casual", length: "short" }],
+  ["/api/blog-post", { title: "Remote work for teams", targetKeywords: "remote work", audience: "beginners", length: "medium" }],
+  ...(["news", "how-to", "listicle", "opinion", "research"] as const).map((style): [string, Record<string, unknown>] =>
+    ["/api/article", { topic: "Composting at home", style, length: "short" }]),
+  ["/api/meta-description", { title: "Composting at home", keywords: "composting", audience: "beginners" }],
+  ["/api/seo-title-generator", { keywords: "compost, garden, soil" }],
+];
+
+// The replay runs on another day, so output that depends on the date fails
+const REPLAY_DATE = new Date("2031-07-15T12:00:00Z").getTime();
+
+for (const provider of [templateProvider, mockProvider]) {
+  test(`the same seed gives byte-identical output (${provider.name} provider)`, async () => {
+    const app = await startTestApp(provider);
+    try {
+      for (const [path, request] of REQUESTS) {
+        const first = await app.post(path, { ...request, seed: 1234 });
+        mock.timers.enable({ apis: ["Date"], now: REPLAY_DATE });
+        const second = await app.post(path, { ...request, seed: 1234 }).finally(() => mock.timers.reset());
+
+        assert.equal(first.status, 200, `${path} failed: ${JSON.stringify(first.body)}`);
+        assert.equal(first.body.seed, 1234);
+        assert.equal(JSON.stringify(second.body), JSON.stringify(first.body), `${path} ${JSON.stringify(request)} changed between runs`);
+      }
+    } finally {
+      await app.close();
+    }
+  });
+}
+
+test("a different seed gives different template output", async () => {
+  const app = await startTestApp(templateProvider);
+  try {
+    for (const [path, request] of REQUESTS) {
+      const first = await app.post(path, { ...request, seed: 1 });
+      const second = await app.post(path, { ...request, seed: 2 });
+
+      assert.notEqual(JSON.stringify(second.body), JSON.stringify(first.body), `${path} ${JSON.stringify(request)} ignored the seed`);
+    }
+  } finally {
+    await app.close();
+  }
+});
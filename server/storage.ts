@@ -1,14 +1,29 @@
-// Simple storage interface for SEO toolbox
-// Since we don't need user authentication for this app,
-// this file is kept minimal
+import type { SeoRuleSet } from "@shared/schema";
+
+// Simple storage interface for SEO toolbox. There are no user accounts; a
+// project is just an ID that groups saved settings.
 
 export interface IStorage {
-  // This can be extended later if needed
+  getSeoRuleSet(projectId: string): Promise<SeoRuleSet | undefined>;
+  saveSeoRuleSet(projectId: string, rules: SeoRuleSet): Promise<SeoRuleSet>;
+  deleteSeoRuleSet(projectId: string): Promise<boolean>;
 }
 
+// Kept in memory, so saved rule sets last until the server restarts
 export class MemStorage implements IStorage {
-  constructor() {
-    // Storage implementation can be added here if needed
+  private seoRuleSets = new Map<string, SeoRuleSet>();
+
+  async getSeoRuleSet(projectId: string): Promise<SeoRuleSet | undefined> {
+    return this.seoRuleSets.get(projectId);
+  }
+
+  async saveSeoRuleSet(projectId: string, rules: SeoRuleSet): Promise<SeoRuleSet> {
+    this.seoRuleSets.set(projectId, rules);
+    return rules;
+  }
+
+  async deleteSeoRuleSet(projectId: string): Promise<boolean> {
+    return this.seoRuleSets.delete(projectId);
   }
 }
 
@@ -0,0 +1,30 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import type { ContentProvider } from "./providers";
+
+export interface TestApp {
+  post(path: string, body: unknown): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+// The API on a free local port, writing through the given provider
+export async function startTestApp(contentProvider: ContentProvider): Promise<TestApp> {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app, contentProvider);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    async post(path, body) {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() };
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
@@ -0,0 +1,193 @@
+import type { Audience } from "../schema";
+
+export interface AudienceProfile {
+  label: string;
+  // Words in a free-text audience ("small business owners") that pick this profile
+  aliases: string[];
+  // Passed to hosted models alongside the reader's own description
+  guidance: string;
+  // Most subsections an outline section keeps
+  maxSubsections: number;
+  // Whether "Advanced ..." sections and subsections appear
+  advanced: boolean;
+  // Outline headings this audience skips
+  skipSections: string[];
+  // Sections added after the introduction and before the conclusion
+  leadSections: { heading: string; subsections: string[] }[];
+  closingSections: { heading: string; subsections: string[] }[];
+  // Plain-language swaps for jargon in template text
+  vocabulary: Record<string, string>;
+  // One-sentence examples of the kind this audience relates to
+  examples: (keyword: string) => string[];
+}
+
+// Practitioners are the default and keep the outline templates as written
+export const DEFAULT_AUDIENCE: Audience = "practitioners";
+
+const PLAIN_VOCABULARY: Record<string, string> = {
+  methodology: 'method',
+  leverage: 'use',
+  initiatives: 'projects',
+  initiative: 'project',
+  prioritize: 'focus on',
+  proportionate: 'well suited',
+  ambiguity: 'confusion',
+  incremental: 'step-by-step',
+  substantially: 'a lot',
+  markedly: 'clearly',
+  considerably: 'much',
+  assessment: 'check',
+  retrospective: 'look back',
+  accountability: 'ownership',
+  governance: 'oversight',
+  dependencies: 'things it relies on',
+};
+
+export const AUDIENCE_PROFILES: Record<Audience, AudienceProfile> = {
+  beginners: {
+    label: "Beginners",
+    aliases: ['beginner', 'beginners', 'novice', 'novices', 'newbie', 'newbies', 'new', 'first-time', 'non-technical', 'general'],
+    guidance: "Assume no prior knowledge, define every term on first use and prefer everyday words to jargon.",
+    maxSubsections: 2,
+    advanced: false,
+    skipSections: [],
+    leadSections: [{ heading: "Key Terms Explained", subsections: ["Words you will see often", "What they mean in practice"] }],
+    closingSections: [],
+    vocabulary: PLAIN_VOCABULARY,
+    examples: (keyword) => [
+      `A simple way to start is to try ${keyword} on one small task you already do each week.`,
+      `Think of ${keyword} like learning a recipe: follow the steps first, then adjust to taste.`,
+      `Even a single afternoon spent practising ${keyword} will make the basic ideas feel familiar.`,
+      `Picture a first attempt that only goes halfway; with ${keyword}, that still counts as real progress.`,
+    ],
+  },
+  practitioners: {
+    label: "Practitioners",
+    aliases: ['practitioner', 'practitioners', 'professional', 'professionals', 'intermediate', 'advanced', 'marketer', 'marketers', 'specialist', 'specialists', 'freelancer', 'freelancers'],
+    guidance: "Skip the basics, focus on practical technique and trade-offs, and use the field's standard terminology.",
+    maxSubsections: 3,
+    advanced: true,
+    skipSections: [],
+    leadSections: [],
+    closingSections: [],
+    vocabulary: {},
+    examples: (keyword) => [
+      `On a typical project, ${keyword} pays off most when it is built into the weekly workflow.`,
+      `A common scenario: a campaign stalls, and a quick ${keyword} review shows which step is the bottleneck.`,
+      `Compare two recent projects side by side and the effect of ${keyword} is usually easy to spot.`,
+      `In day-to-day work, a short checklist keeps ${keyword} on track during busy weeks.`,
+    ],
+  },
+  executives: {
+    label: "Executives",
+    aliases: ['executive', 'executives', 'leader', 'leaders', 'leadership', 'manager', 'managers', 'management', 'ceo', 'ceos', 'founder', 'founders', 'owner', 'owners', 'business', 'decision-makers'],
+    guidance: "Lead with outcomes, costs and risks, keep technique brief and end each section with what to decide.",
+    maxSubsections: 2,
+    advanced: false,
+    skipSections: ["Getting Started", "Step-by-Step Process", "Troubleshooting", "The Fundamentals"],
+    leadSections: [{ heading: "Executive Summary", subsections: ["The short version", "Decisions to make"] }],
+    closingSections: [{ heading: "Business Impact", subsections: ["Costs and return on investment", "Risks and how to manage them"] }],
+    vocabulary: {},
+    examples: (keyword) => [
+      `For a leadership team, ${keyword} is ultimately a question of return on investment and risk.`,
+      `Consider a budget review: ${keyword} earns its place when it shortens the time to revenue.`,
+      `A board will ask one question about ${keyword}: what value does it create this year?`,
+      `Across a portfolio of projects, ${keyword} reduces duplicated spend and speeds up decisions.`,
+    ],
+  },
+  developers: {
+    label: "Developers",
+    aliases: ['developer', 'developers', 'engineer', 'engineers', 'engineering', 'programmer', 'programmers', 'coder', 'coders', 'devs', 'technical'],
+    guidance: "Be precise and technical, include implementation detail and tooling, and compare approaches by their trade-offs.",
+    maxSubsections: 3,
+    advanced: true,
+    skipSections: [],
+    leadSections: [],
+    closingSections: [{ heading: "Implementation Details", subsections: ["Architecture and tooling", "Code-level examples", "Testing and debugging"] }],
+    vocabulary: {},
+    examples: (keyword) => [
+      `In code terms, treat ${keyword} like a test suite: automate the checks and run them on every change.`,
+      `A useful pattern is to script the repetitive parts of ${keyword} and keep the scripts in version control.`,
+      `Think of ${keyword} as an interface: define the inputs and outputs before worrying about the internals.`,
+      `Logging each ${keyword} step makes problems as easy to trace as a failing build.`,
+    ],
+  },
+  students: {
+    label: "Students",
+    aliases: ['student', 'students', 'learner', 'learners', 'pupil', 'pupils', 'class', 'classroom', 'college', 'university', 'school'],
+    guidance: "Explain concepts step by step, connect them to background theory and finish with points to review.",
+    maxSubsections: 3,
+    advanced: false,
+    skipSections: [],
+    leadSections: [{ heading: "Background and Key Concepts", subsections: ["Where the idea comes from", "Key definitions"] }],
+    closingSections: [{ heading: "Review and Practice", subsections: ["Summary of key points", "Questions to test your understanding"] }],
+    vocabulary: PLAIN_VOCABULARY,
+    examples: (keyword) => [
+      `A good study exercise is to explain ${keyword} in your own words to a classmate.`,
+      `Try summarising each section on ${keyword} in one sentence before moving on to the next.`,
+      `Case studies make ${keyword} easier to remember than definitions alone, so collect a few.`,
+      `Compare ${keyword} with a topic from another course and note what the two have in common.`,
+    ],
+  },
+};
+
+const AUDIENCES = Object.keys(AUDIENCE_PROFILES) as Audience[];
+
+// Map a free-text audience onto a profile by its first recognised word, so
+// "small business owners" reads as executives and "new bloggers" as beginners
+export function resolveAudience(audience?: string): Audience {
+  const words = (audience || '').toLowerCase().split(/[^a-z-]+/).filter(Boolean);
+  for (const word of words) {
+    const match = AUDIENCES.find(candidate => AUDIENCE_PROFILES[candidate].aliases.includes(word));
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_AUDIENCE;
+}
+
+// Swap jargon for the audience's plainer words, keeping a leading capital
+export function applyVocabulary(text: string, audience: Audience): string {
+  const vocabulary = AUDIENCE_PROFILES[audience].vocabulary;
+  const terms = Object.keys(vocabulary);
+  if (terms.length === 0) {
+    return text;
+  }
+
+  return text.replace(new RegExp(`\\b(${terms.join('|')})\\b`, 'gi'), match => {
+    const replacement = vocabulary[match.toLowerCase()];
+    return match[0] === match[0].toUpperCase() ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+  });
+}
+
+interface OutlineSection {
+  heading: string;
+  level: number;
+  subsections?: string[];
+}
+
+// Fit an outline to an audience: drop the sections it skips and any advanced
+// material it is not ready for, cap the subsections, and add its own sections
+// after the introduction and before the conclusion
+export function shapeOutline<T extends OutlineSection>(sections: T[], audience: Audience): (T | OutlineSection)[] {
+  const profile = AUDIENCE_PROFILES[audience];
+  const isAdvanced = (heading: string) => /^advanced\b/i.test(heading);
+  const kept = sections
+    .filter(section => !profile.skipSections.includes(section.heading) && (profile.advanced || !isAdvanced(section.heading)))
+    .map(section => section.subsections
+      ? { ...section, subsections: section.subsections.filter(sub => profile.advanced || !isAdvanced(sub)).slice(0, profile.maxSubsections) }
+      : section);
+  const added = (extra: AudienceProfile['leadSections']) => extra.map(({ heading, subsections }) => ({ heading, level: 2, subsections }));
+
+  const hasIntro = kept.length > 0 && kept[0].heading.toLowerCase().includes('introduction');
+  const hasConclusion = kept.length > 1 && kept[kept.length - 1].heading.toLowerCase().includes('conclusion');
+  const body = kept.slice(hasIntro ? 1 : 0, hasConclusion ? -1 : undefined);
+
+  return [
+    ...(hasIntro ? [kept[0]] : []),
+    ...added(profile.leadSections),
+    ...body,
+    ...added(profile.closingSections),
+    ...(hasConclusion ? [kept[kept.length - 1]] : []),
+  ];
+}
@@ -0,0 +1,28 @@
+// Acronyms and brand names whose casing the title case converter never changes.
+// Keys are lowercase; values are the canonical spelling.
+const PRESERVED_WORDS = [
+  // Marketing and web acronyms
+  'SEO', 'SEM', 'SERP', 'SERPs', 'CTR', 'CTA', 'CTAs', 'ROI', 'KPI', 'KPIs', 'PPC', 'CPC', 'CPM',
+  'B2B', 'B2C', 'SaaS', 'CMS', 'CRM', 'API', 'APIs', 'SDK', 'HTML', 'CSS', 'URL', 'URLs', 'HTTP',
+  'HTTPS', 'JSON', 'XML', 'PDF', 'FAQ', 'FAQs', 'UX', 'UI', 'AI', 'ML', 'SQL', 'DNS', 'CDN', 'SMS',
+  'GA4', 'E-E-A-T',
+  // Organizations and roles
+  'USA', 'UK', 'EU', 'NASA', 'CEO', 'CTO', 'CFO', 'CMO', 'HR', 'DIY',
+  // Brands with unusual casing
+  'iPhone', 'iPad', 'iOS', 'iCloud', 'macOS', 'MacBook', 'JavaScript', 'TypeScript', 'GitHub',
+  'GitLab', 'LinkedIn', 'YouTube', 'WordPress', 'WooCommerce', 'eBay', 'PayPal', 'HubSpot',
+  'OpenAI', 'ChatGPT', 'TikTok', 'PlayStation', 'Node.js', 'Next.js', 'Vue.js', 'jQuery',
+  'PostgreSQL', 'MySQL', 'MongoDB', 'DeepMind',
+  // Proper nouns that sentence case must not lowercase
+  'Google', 'Facebook', 'Instagram', 'Pinterest', 'Microsoft', 'Shopify', 'Android',
+];
+
+// Brand names that are also everyday words ("apple pie", "clean windows").
+// They stay capitalized only where the input already capitalized them.
+// Acronyms that are also words, such as AMP ("amp") and PR ("pr-ready"), are
+// in neither list: typed in capitals they are kept as typed, like any acronym.
+const CAPITALIZED_WHEN_TYPED = ['Apple', 'Amazon', 'Bing', 'Excel', 'Twitter', 'Windows'];
+
+export const PRESERVED_CASING = new Map(PRESERVED_WORDS.map(word => [word.toLowerCase(), word]));
+
+export const TYPED_BRAND_CASING = new Map(CAPITALIZED_WHEN_TYPED.map(word => [word.toLowerCase(), word]));
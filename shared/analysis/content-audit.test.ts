@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { auditContent } from "./content-audit";
+
+const GUIDE = `# Deploying a Node app
+
+Shipping a Node app is easier than it looks. This guide walks through the setup from a fresh server.
+
+## Install dependencies
+
+Run the install from the project folder before the first deploy.
+
+\`\`\`bash
+# install deps
+npm install
+
+# build
+npm run build
+\`\`\`
+
+## Compare hosting plans
+
+| Plan | Price |
+| --- | ---: |
+| Hobby | $0 |
+| Pro | $20 |
+
+Pick the plan that matches your traffic.`;
+
+test("headings inside a code fence are not audited", () => {
+  const audit = auditContent({ content: GUIDE, format: "markdown" });
+
+  assert.deepEqual(audit.headings.outline, [
+    { heading: "Deploying a Node app", level: 1 },
+    { heading: "Install dependencies", level: 2 },
+    { heading: "Compare hosting plans", level: 2 },
+  ]);
+  assert.ok(!audit.headings.issues.some(issue => issue.message.startsWith("Use one H1")));
+});
+
+test("code fences and tables survive normalization verbatim", () => {
+  const audit = auditContent({ content: GUIDE, format: "markdown" });
+
+  assert.ok(audit.content.includes("```bash\n# install deps\nnpm install\n\n# build\nnpm run build\n```"));
+  assert.ok(audit.content.includes("| Plan | Price |\n| --- | ---: |\n| Hobby | $0 |\n| Pro | $20 |"));
+  assert.deepEqual(audit.document.find(block => block.type === "code"), {
+    type: "code",
+    language: "bash",
+    text: "# install deps\nnpm install\n\n# build\nnpm run build",
+  });
+  assert.deepEqual(audit.document.find(block => block.type === "table"), {
+    type: "table",
+    rows: [["Plan", "Price"], ["Hobby", "$0"], ["Pro", "$20"]],
+    text: "| Plan | Price |\n| --- | ---: |\n| Hobby | $0 |\n| Pro | $20 |",
+  });
+});
+
+test("code is left out of word counts and readability", () => {
+  const audit = auditContent({ content: GUIDE, format: "markdown" });
+
+  assert.ok(!audit.density.keywords.some(keyword => keyword.word === "npm"));
+  assert.ok(!audit.readability.longSentences.some(sentence => sentence.text.includes("npm")));
+  assert.equal(audit.readability.paragraphCount, 3);
+});
+
+test("preformatted HTML becomes a code block", () => {
+  const audit = auditContent({
+    content: "<h1>Setup</h1><p>Install the tools first.</p><pre><code># install deps\nnpm install</code></pre>",
+  });
+
+  assert.equal(audit.format, "html");
+  assert.deepEqual(audit.headings.outline, [{ heading: "Setup", level: 1 }]);
+  assert.deepEqual(audit.document.at(-1), { type: "code", text: "# install deps\nnpm install" });
+});
@@ -0,0 +1,131 @@
+import type { AuditReadability, ContentAuditRequest, ContentAuditResponse, ContentBlock, HeadingAudit, HeadingIssue, Readability, SeoRuleSet } from "../schema";
+import { detectContentFormat, toMarkdown } from "./content-format";
+import { analyzeKeywordDensity } from "./density";
+import { normalizeMarkdown, parseDocument, renderDocument } from "./document";
+import { getMainKeyword, scoreMetaDescription } from "./meta-description";
+import { calculateSEOScore } from "./seo-score";
+import { buildSerpPreview } from "./serp-preview";
+import { analyzeReadability, estimateReadingTime } from "./readability";
+import { countWords, parseKeywordList } from "./tokenizer";
+
+export type ContentAuditInput = Omit<ContentAuditRequest, "projectId" | "seoRules">;
+
+const LONG_PARAGRAPH_WORDS = 150;
+const LONG_HEADING_CHARACTERS = 70;
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function plainText(text: string): string {
+  return text.replace(/\*\*/g, "").trim();
+}
+
+// Sentence-level readability plus how the text is broken into paragraphs
+export function measureReadability(content: string, blocks: ContentBlock[] = parseDocument(content), readability: Readability = analyzeReadability(content)): AuditReadability {
+  const paragraphLengths = blocks
+    .filter(block => block.type === "paragraph")
+    .map(block => countWords(block.text));
+  const total = paragraphLengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    ...readability,
+    paragraphCount: paragraphLengths.length,
+    averageParagraphLength: paragraphLengths.length ? round(total / paragraphLengths.length) : 0,
+    longParagraphCount: paragraphLengths.filter(length => length > LONG_PARAGRAPH_WORDS).length,
+  };
+}
+
+// Check the heading hierarchy. The page title counts as the H1, so the first
+// heading in the content may be an H1 or an H2.
+export function auditHeadings(blocks: ContentBlock[], keywords?: string): HeadingAudit {
+  const headings = blocks.flatMap((block, index) => block.type === "heading" ? [{ block, index }] : []);
+  const issues: HeadingIssue[] = [];
+
+  const h1Count = headings.filter(({ block }) => block.level === 1).length;
+  if (h1Count > 1) {
+    issues.push({ severity: "warning", message: `Use one H1 per page; found ${h1Count}` });
+  }
+
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+  let previousLevel = 1;
+  headings.forEach(({ block, index }, position) => {
+    const text = plainText(block.text);
+    if (!text) {
+      issues.push({ severity: "warning", message: `An H${block.level} heading has no text` });
+      return;
+    }
+
+    if (block.level > previousLevel + 1) {
+      issues.push({ severity: "warning", message: `"${text}" skips from H${previousLevel} to H${block.level}` });
+    }
+    previousLevel = block.level;
+
+    if (text.length > LONG_HEADING_CHARACTERS) {
+      issues.push({ severity: "info", message: `"${text}" is over ${LONG_HEADING_CHARACTERS} characters; shorter headings scan better` });
+    }
+
+    const key = text.toLowerCase();
+    if (seen.has(key) && !reported.has(key)) {
+      issues.push({ severity: "info", message: `"${text}" is used for more than one heading` });
+      reported.add(key);
+    }
+    seen.add(key);
+
+    // A heading followed straight by a sibling or parent heading has nothing under it
+    const next = headings[position + 1];
+    const nextIndex = next ? next.index : blocks.length;
+    if (nextIndex === index + 1 && (!next || next.block.level <= block.level)) {
+      issues.push({ severity: "warning", message: `"${text}" has no content under it` });
+    }
+  });
+
+  const keyword = parseKeywordList(keywords)[0];
+  const subheadings = headings.filter(({ block }) => block.level > 1);
+  if (keyword && subheadings.length > 0 && !subheadings.some(({ block }) => block.text.toLowerCase().includes(keyword.toLowerCase()))) {
+    issues.push({ severity: "warning", message: `No subheading mentions "${keyword}"` });
+  }
+
+  return {
+    outline: headings.map(({ block }) => ({ heading: plainText(block.text), level: block.level })),
+    issues,
+  };
+}
+
+// Score content written anywhere: scoring rules, readability, keyword density
+// and headings, plus the title and meta description as a search result. Code
+// blocks are kept in the document but left out of word counts and density.
+export function auditContent({ content: raw, format, title, metaDescription, targetKeywords, language }: ContentAuditInput, ruleSet: SeoRuleSet = {}): ContentAuditResponse {
+  const resolvedFormat = format || detectContentFormat(raw);
+  const content = normalizeMarkdown(toMarkdown(raw, resolvedFormat));
+  const document = parseDocument(content);
+
+  const h1 = document.find(block => block.type === "heading" && block.level === 1);
+  const resolvedTitle = title || (h1?.type === "heading" ? plainText(h1.text) : "");
+
+  const prose = renderDocument(document.filter(block => block.type !== "code"));
+  const wordCount = countWords(prose);
+  const { score, tips, rules } = calculateSEOScore(prose, resolvedTitle, targetKeywords, ruleSet);
+  const density = analyzeKeywordDensity(prose, { targetKeywords, language });
+
+  return {
+    format: resolvedFormat,
+    title: resolvedTitle,
+    content,
+    document,
+    wordCount,
+    readingTime: estimateReadingTime(wordCount),
+    seoScore: score,
+    seoTips: tips,
+    seoRules: rules,
+    metaDescription: metaDescription
+      ? scoreMetaDescription(metaDescription, getMainKeyword(resolvedTitle, targetKeywords))
+      : undefined,
+    serpPreview: buildSerpPreview(resolvedTitle, metaDescription || ""),
+    readability: measureReadability(content, document, density.readability),
+    density,
+    headings: auditHeadings(document, targetKeywords),
+  };
+}
@@ -0,0 +1,138 @@
+import type { ContentFormat } from "../schema";
+import { renderDocument } from "./document";
+
+// Pasted content arrives as markdown, HTML or plain text. Everything is turned
+// into the markdown subset parseDocument reads, so one set of checks covers all
+// three.
+
+const HTML_TAG = /<\/?(p|h[1-6]|ul|ol|li|div|br|article|section|blockquote|pre|table|strong|b|em|i|a|span)\b[^>]*>/i;
+const MARKDOWN_SYNTAX = /^(#{1,6}\s|\s*[-*]\s|\s*\d+[.)]\s|\s*>\s|\s*```|\s*\|.*\|\s*$)|\*\*[^*\n]+\*\*/m;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  eacute: "é",
+  egrave: "è",
+  aacute: "á",
+  agrave: "à",
+  iacute: "í",
+  oacute: "ó",
+  uacute: "ú",
+  ntilde: "ñ",
+  ccedil: "ç",
+  auml: "ä",
+  ouml: "ö",
+  uuml: "ü",
+  szlig: "ß",
+};
+
+export function detectContentFormat(content: string): ContentFormat {
+  if (HTML_TAG.test(content)) return "html";
+  if (MARKDOWN_SYNTAX.test(content)) return "markdown";
+  return "text";
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// The text of an inline fragment on one line, keeping bold as **bold**
+function inlineText(html: string): string {
+  return decodeEntities(html
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, tag: string, text: string) => `**${text.trim()}**`)
+    .replace(/<\/?(a|em|i|u|span|code|mark|small|sub|sup|abbr)\b[^>]*>/gi, "")
+    .replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function htmlTable(inner: string): string {
+  const rows = Array.from(inner.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi))
+    .map(row => Array.from(row[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(cell => inlineText(cell[1]).replace(/\|/g, "\\|")))
+    .filter(cells => cells.length > 0);
+  if (rows.length === 0) return "";
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  return [line(rows[0]), line(rows[0].map(() => "---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+// Block-level HTML to markdown. Nested lists are flattened into their parent.
+// Preformatted text becomes a code fence and tables markdown tables; both are
+// set aside first so their line breaks survive.
+export function htmlToMarkdown(html: string): string {
+  const verbatim: string[] = [];
+  const setAside = (markdown: string) => `\n\n\u0000${verbatim.push(markdown) - 1}\u0000\n\n`;
+
+  const listItems = (inner: string, marker: (index: number) => string) =>
+    "\n\n" + Array.from(inner.matchAll(/<li\b[^>]*>([\s\S]*?)(?=<li\b|<\/li>|$)/gi))
+      .map((item, index) => `${marker(index)} ${inlineText(item[1])}`)
+      .filter(line => !/^(-|\d+\.) $/.test(line))
+      .join("\n") + "\n\n";
+
+  const markdown = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|script|style|nav|footer)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => setAside(renderDocument([{ type: "code", text: decodeEntities(code.replace(/<[^>]+>/g, "")).replace(/^\n|\n$/g, "") }])))
+    .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, inner: string) => setAside(htmlTable(inner)))
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) => `\n\n${"#".repeat(Number(level))} ${inlineText(text)}\n\n`)
+    .replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, inner: string) => listItems(inner, index => `${index + 1}.`))
+    .replace(/<ul\b[^>]*>([\s\S]*?)<\/ul>/gi, (_, inner: string) => listItems(inner, () => "-"))
+    .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, text: string) => `\n\n> ${inlineText(text)}\n\n`)
+    .replace(/<p\b[^>]*>([\s\S]*?)<\/p>/gi, (_, text: string) => `\n\n${inlineText(text)}\n\n`)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(div|section|article|main|header|table|tr)\b[^>]*>/gi, "\n\n");
+
+  // Whatever text is left outside the blocks above becomes paragraphs
+  return markdown
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => {
+      const setAsideIndex = /^\u0000(\d+)\u0000$/.exec(block);
+      if (setAsideIndex) return verbatim[Number(setAsideIndex[1])];
+      return /^(#{1,6}\s|-\s|\d+\.\s|>\s)/.test(block) ? block : inlineText(block);
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Plain text has no headings or lists. Paragraphs are split on blank lines, or
+// on every line break when the text has no blank lines.
+export function textToMarkdown(text: string): string {
+  const separator = /\n\s*\n/.test(text) ? /\n\s*\n/ : /\n/;
+  return text
+    .split(separator)
+    .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function toMarkdown(content: string, format: ContentFormat): string {
+  switch (format) {
+    case "html":
+      return htmlToMarkdown(content);
+    case "text":
+      return textToMarkdown(content);
+    default:
+      return content;
+  }
+}
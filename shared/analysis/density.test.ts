@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeKeywordDensity } from "./density";
+
+const CONTENT = "AI is changing how to work. With AI, a team of two can do a lot. How to start with AI is the question.";
+
+test("density counts every word, short ones included", () => {
+  const { totalWords } = analyzeKeywordDensity(CONTENT, { language: "en" });
+
+  assert.equal(totalWords, 24);
+});
+
+test("short targets are measured against the same words they are counted in", () => {
+  const { targets } = analyzeKeywordDensity(CONTENT, { targetKeywords: "ai, how to", language: "en" });
+  const [ai, howTo] = targets;
+
+  assert.equal(ai.frequency, 3);
+  assert.equal(ai.density, 12.5);
+  assert.equal(howTo.frequency, 2);
+  assert.equal(howTo.density, 16.67);
+});
+
+test("single-word rankings still skip very short words", () => {
+  const { keywords } = analyzeKeywordDensity(CONTENT, { language: "en", filterStopwords: false });
+
+  assert.ok(keywords.every(keyword => keyword.word.length > 2));
+});
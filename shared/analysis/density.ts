@@ -0,0 +1,184 @@
+import type { KeywordDensityEntry, KeywordDensityResponse, Language, TargetKeywordReport } from "../schema";
+import { parseKeywordList, tokenize } from "./tokenizer";
+import { ENGLISH_STOPWORDS, STOPWORDS_BY_LANGUAGE } from "./stopwords";
+import { stem } from "./stemmer";
+import { detectLanguage } from "./language";
+import { analyzeReadability } from "./readability";
+
+export type DensityStatus = "low" | "good" | "optimal" | "high";
+
+export interface KeywordDensityOptions {
+  targetKeywords?: string;
+  filterStopwords?: boolean;
+  customStopwords?: string;
+  lemmatize?: boolean;
+  language?: Language;
+}
+
+const MAX_RESULTS = 20;
+
+export function getDensityStatus(density: number): DensityStatus {
+  if (density < 1) return "low";
+  if (density < 2) return "good";
+  if (density < 4) return "optimal";
+  return "high";
+}
+
+function toEntry(word: string, frequency: number, totalWords: number, wordsPerEntry = 1): KeywordDensityEntry {
+  const density = totalWords > 0 ? (frequency * wordsPerEntry / totalWords) * 100 : 0;
+  return { word, frequency, density: Number(density.toFixed(2)), status: getDensityStatus(density) };
+}
+
+function toEntries(counts: Map<string, number>, totalWords: number, wordsPerEntry = 1): KeywordDensityEntry[] {
+  return Array.from(counts.entries())
+    .map(([word, frequency]) => toEntry(word, frequency, totalWords, wordsPerEntry))
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, MAX_RESULTS);
+}
+
+// Count n-word phrases without crossing sentence or clause boundaries, skipping
+// phrases that begin or end with a function word ("of the", "is a great").
+export function countPhrases(content: string, size: number, stopwords: Set<string> = ENGLISH_STOPWORDS): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  content.split(/[.!?;:,\n]+/).forEach(segment => {
+    const tokens = tokenize(segment);
+    for (let i = 0; i + size <= tokens.length; i++) {
+      const phrase = tokens.slice(i, i + size);
+      if (stopwords.has(phrase[0]) || stopwords.has(phrase[size - 1])) continue;
+      const key = phrase.join(' ');
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  });
+
+  // A phrase seen once is not a pattern worth reporting
+  counts.forEach((frequency, phrase) => {
+    if (frequency < 2) counts.delete(phrase);
+  });
+
+  return counts;
+}
+
+function countOccurrences(tokens: string[], phrase: string[]): number {
+  if (phrase.length === 0) return 0;
+  let count = 0;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, offset) => tokens[i + offset] === word)) count++;
+  }
+  return count;
+}
+
+// Report on keywords the writer is actually trying to rank for, including where
+// in the document they appear. With lemmatization on, "optimizing" counts
+// towards a target of "optimize".
+export function analyzeTargetKeywords(content: string, targets: string[], totalWords: number, lemmatize = false): TargetKeywordReport[] {
+  const normalize = (text: string) => lemmatize ? tokenize(text).map(stem) : tokenize(text);
+
+  const tokens = normalize(content);
+  const opening = tokens.slice(0, 100);
+  const headings = normalize((content.match(/^#{2,3}\s+.*$/gm) || []).join('\n'));
+  const paragraphs = content
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0 && !p.startsWith('#'));
+  const lastParagraph = normalize(paragraphs[paragraphs.length - 1] || '');
+
+  return targets.map(target => {
+    const phrase = normalize(target);
+    const frequency = countOccurrences(tokens, phrase);
+
+    return {
+      ...toEntry(target, frequency, totalWords, phrase.length),
+      inFirst100Words: countOccurrences(opening, phrase) > 0,
+      inHeadings: countOccurrences(headings, phrase) > 0,
+      inLastParagraph: countOccurrences(lastParagraph, phrase) > 0,
+    };
+  });
+}
+
+interface KeywordGroup {
+  word: string;
+  frequency: number;
+  variants: string[];
+}
+
+// Group words under their stem; the most frequent surface form names the group
+function groupByRoot(words: string[]): KeywordGroup[] {
+  const groups = new Map<string, Map<string, number>>();
+  words.forEach(word => {
+    const root = stem(word);
+    const forms = groups.get(root) || new Map<string, number>();
+    forms.set(word, (forms.get(word) || 0) + 1);
+    groups.set(root, forms);
+  });
+
+  return Array.from(groups.values()).map(forms => {
+    const variants = Array.from(forms.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].length - b[0].length)
+      .map(([form]) => form);
+    const frequency = Array.from(forms.values()).reduce((sum, count) => sum + count, 0);
+    return { word: variants[0], frequency, variants };
+  });
+}
+
+export function analyzeKeywordDensity(content: string, options: KeywordDensityOptions = {}): KeywordDensityResponse {
+  const language = options.language || detectLanguage(content);
+  const languageStopwords = STOPWORDS_BY_LANGUAGE[language];
+  // The bundled stemmer only knows English morphology
+  const lemmatize = (options.lemmatize ?? true) && language === "en";
+  const { filterStopwords = true } = options;
+  const stopwords = new Set([
+    ...(filterStopwords ? Array.from(languageStopwords) : []),
+    ...parseKeywordList(options.customStopwords).map(word => word.toLowerCase()),
+  ]);
+
+  // Density is measured against every word, the same stream target keywords
+  // and phrases are counted in; very short words are only left out of the
+  // single-word ranking
+  const words = tokenize(content);
+  const totalWords = words.length;
+  const candidates = words.filter(word => word.length > 2 && !stopwords.has(word));
+
+  let keywordGroups: KeywordGroup[];
+  if (lemmatize) {
+    keywordGroups = groupByRoot(candidates);
+  } else {
+    const wordCount = new Map<string, number>();
+    candidates.forEach(word => {
+      wordCount.set(word, (wordCount.get(word) || 0) + 1);
+    });
+    keywordGroups = Array.from(wordCount.entries()).map(([word, frequency]) => ({ word, frequency, variants: [word] }));
+  }
+
+  const keywords = keywordGroups
+    .map(group => ({
+      ...toEntry(group.word, group.frequency, totalWords),
+      // Only list variants when more than one form was merged
+      ...(group.variants.length > 1 ? { variants: group.variants } : {}),
+    }))
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, MAX_RESULTS);
+
+  const phraseBoundaries = new Set([...Array.from(languageStopwords), ...Array.from(stopwords)]);
+  const bigrams = toEntries(countPhrases(content, 2, phraseBoundaries), totalWords, 2);
+  const trigrams = toEntries(countPhrases(content, 3, phraseBoundaries), totalWords, 3);
+  const targets = analyzeTargetKeywords(content, parseKeywordList(options.targetKeywords), totalWords, lemmatize);
+
+  const avgDensity = keywords.length > 0
+    ? Number((keywords.reduce((sum, k) => sum + k.density, 0) / keywords.length).toFixed(2))
+    : 0;
+  const topKeywordDensity = keywords[0]?.density || 0;
+
+  return {
+    language,
+    totalWords,
+    uniqueKeywords: keywordGroups.length,
+    keywords,
+    bigrams,
+    trigrams,
+    targets,
+    avgDensity,
+    topKeywordDensity,
+    readability: analyzeReadability(content),
+  };
+}
@@ -0,0 +1,158 @@
+import type { CalloutVariant, ContentBlock } from "../schema";
+
+// Reads and writes the markdown subset the generators emit: #-style
+// headings, paragraphs, bullet lists ("-", "*" or "•"), numbered lists and
+// "> **Tip:**" callouts. Inline text keeps its **bold** markup. Fenced code
+// and tables are kept verbatim and nothing inside them is read as markdown.
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const CALLOUT_LABEL = /^\*\*(tip|note|warning):\*\*\s*/i;
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+// The line under a table's header row, e.g. "| --- | :---: |"
+const TABLE_DIVIDER = /^\s*\|?(\s*:?-+:?\s*\|)+\s*(:?-+:?)?\s*$/;
+
+const CALLOUT_LABELS: Record<CalloutVariant, string> = {
+  tip: "Tip",
+  note: "Note",
+  warning: "Warning",
+};
+
+function isClosingFence(line: string, fence: string): boolean {
+  const closing = /^\s{0,3}(`{3,}|~{3,})\s*$/.exec(line);
+  return !!closing && closing[1][0] === fence[0] && closing[1].length >= fence.length;
+}
+
+function tableCells(row: string): string[] {
+  return row.trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, "|"));
+}
+
+export function parseDocument(markdown: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+  const flushQuote = () => {
+    if (quote.length > 0) {
+      const text = quote.join(" ");
+      const label = CALLOUT_LABEL.exec(text);
+      blocks.push({
+        type: "callout",
+        variant: label ? label[1].toLowerCase() as CalloutVariant : "note",
+        text: label ? text.slice(label[0].length) : text,
+      });
+      quote = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      blocks.push({ type: "list", ...list });
+      list = null;
+    }
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushQuote();
+    flushList();
+  };
+
+  const lines = markdown.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushAll();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the text
+      while (++index < lines.length && !isClosingFence(lines[index], fence[1])) {
+        code.push(lines[index]);
+      }
+      blocks.push({ type: "code", ...(fence[2] ? { language: fence[2] } : {}), text: code.join("\n") });
+      continue;
+    }
+    if (line.includes("|") && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1])) {
+      flushAll();
+      const table = [line, lines[index + 1]];
+      index++;
+      while (index + 1 < lines.length && lines[index + 1].trim() && lines[index + 1].includes("|")) {
+        table.push(lines[++index]);
+      }
+      blocks.push({
+        type: "table",
+        rows: table.filter((_, row) => row !== 1).map(tableCells),
+        text: table.join("\n"),
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    const quoted = QUOTE.exec(line);
+
+    if (!line.trim()) {
+      flushAll();
+    } else if (heading) {
+      flushAll();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2].trim() });
+    } else if (quoted) {
+      flushParagraph();
+      flushList();
+      quote.push(quoted[1].trim());
+    } else if (bullet || numbered) {
+      flushParagraph();
+      flushQuote();
+      const ordered = !bullet;
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push((bullet || numbered)![1].trim());
+    } else {
+      flushQuote();
+      flushList();
+      paragraph.push(line.trim());
+    }
+  }
+
+  flushAll();
+  return blocks;
+}
+
+// Blocks back to markdown, with "- " bullets and lists numbered from 1
+export function renderDocument(blocks: ContentBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case "heading":
+        return `${"#".repeat(block.level)} ${block.text}`;
+      case "list":
+        return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${item}`).join("\n");
+      case "callout":
+        return `> **${CALLOUT_LABELS[block.variant]}:** ${block.text}`;
+      case "code": {
+        // A fence longer than any run of backticks in the code itself
+        const longestRun = Math.max(0, ...(block.text.match(/`+/g) || []).map(run => run.length));
+        const fence = "`".repeat(Math.max(3, longestRun + 1));
+        return `${fence}${block.language || ""}\n${block.text}\n${fence}`;
+      }
+      default:
+        return block.text;
+    }
+  }).join("\n\n");
+}
+
+// One list syntax and spacing whichever writer produced the text
+export function normalizeMarkdown(markdown: string): string {
+  return renderDocument(parseDocument(markdown));
+}
@@ -0,0 +1,23 @@
+// Text analysis core shared by the Express server (server/routes.ts) and the
+// Vercel serverless functions (api/*.ts).
+export * from "./tokenizer";
+export * from "./stopwords";
+export * from "./density";
+export * from "./title-case";
+export * from "./meta-description";
+export * from "./seo-score";
+export * from "./stemmer";
+export * from "./casing-dictionary";
+export * from "./language";
+export * from "./pixel-width";
+export * from "./serp-preview";
+export * from "./random";
+export * from "./tone";
+export * from "./word-budget";
+export * from "./audience";
+export * from "./intent";
+export * from "./outline-templates";
+export * from "./document";
+export * from "./readability";
+export * from "./content-format";
+export * from "./content-audit";
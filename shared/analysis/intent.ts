@@ -0,0 +1,101 @@
+import type { IntentAnalysis, SearchIntent } from "../schema";
+
+export const INTENT_LABELS: Record<SearchIntent, string> = {
+  informational: "Informational",
+  "how-to": "How-to",
+  comparison: "Comparison",
+  review: "Review",
+  listicle: "Listicle",
+  definition: "Definition",
+  commercial: "Commercial",
+};
+
+interface IntentSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Phrases that point to each intent, matched against the lowercased topic.
+// A weight of 3 is a signal strong enough to settle the intent on its own.
+const INTENT_SIGNALS: Record<SearchIntent, IntentSignal[]> = {
+  informational: [
+    { pattern: /^(why|when|where|who)\b/, weight: 2 },
+    { pattern: /\b(guide|overview|introduction to|basics|history of|benefits of|understanding|facts about)\b/, weight: 1 },
+  ],
+  "how-to": [
+    { pattern: /\bhow (to|do|can|should)\b/, weight: 3 },
+    { pattern: /\bstep[- ]by[- ]step\b|\btutorial\b|\bwalkthrough\b/, weight: 2 },
+    { pattern: /^(set up|setup|install|fix|create|build|make|start|write|improve|optimi[sz]e)\b/, weight: 1 },
+  ],
+  comparison: [
+    { pattern: /\bvs\.?(?=\s)|\bversus\b/, weight: 3 },
+    { pattern: /\bdifferences? between\b|\bcompared? (to|with)\b|\bcomparison\b/, weight: 3 },
+    { pattern: /\balternatives?\b|\bbetter than\b|\bwhich is better\b/, weight: 2 },
+  ],
+  review: [
+    { pattern: /\breviews?\b/, weight: 3 },
+    { pattern: /\bworth it\b|\bpros and cons\b|\bhands[- ]on\b/, weight: 3 },
+    { pattern: /\b(rating|ratings|tested|honest|experience with)\b/, weight: 1 },
+  ],
+  listicle: [
+    { pattern: /^\d+\s|\btop \d+\b/, weight: 3 },
+    { pattern: /\b(tips|ideas|ways|examples|tricks|hacks|mistakes|reasons|things|list of)\b/, weight: 2 },
+  ],
+  definition: [
+    { pattern: /^what (is|are)\b/, weight: 3 },
+    { pattern: /\b(meaning|definition|define|defined)\b|\bwhat does .+ mean\b/, weight: 3 },
+    { pattern: /\bexplained\b/, weight: 1 },
+  ],
+  commercial: [
+    { pattern: /\b(buy|purchase|pricing|price|prices|cost|costs|cheap|cheapest|affordable|discount|coupon|deals?|for sale|near me|hire|subscription)\b/, weight: 3 },
+    { pattern: /\bbest\b/, weight: 2 },
+    { pattern: /\b(software|tools?|services?|platforms?|apps?|agency|agencies|providers?)\b/, weight: 1 },
+  ],
+};
+
+// Topics with no signal read as informational
+const BASELINE_WEIGHT = 1;
+
+// Earlier intents win ties, so "10 best SEO tools" is a listicle first
+const INTENTS = Object.keys(INTENT_SIGNALS) as SearchIntent[];
+
+// Wording that states the intent rather than the subject, stripped so a
+// template can say "What Is Keyword Research?" for "what is keyword research"
+const LEADING_INTENT = /^(how (to do|to|do i|do you|can i|should i)|what (is|are)( an?| the)?|why (is|are|do|does)|is|are|(the )?differences? between|comparison of|top \d+|\d+|the best|best)\s+/i;
+const TRAILING_INTENT = /\s+(review|reviews|explained|meaning|definition|tips|ideas|guide|step[- ]by[- ]step|pros and cons|worth it)$/i;
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// Score a topic against each intent's signals. Confidence is the winning
+// score's strength (full at one strong signal) times its share of all scores.
+export function classifyIntent(topic: string): IntentAnalysis {
+  const text = topic.toLowerCase().trim();
+  const scores = Object.fromEntries(INTENTS.map(intent => [
+    intent,
+    INTENT_SIGNALS[intent].reduce((total, signal) => total + (signal.pattern.test(text) ? signal.weight : 0), 0),
+  ])) as Record<SearchIntent, number>;
+  scores.informational += BASELINE_WEIGHT;
+
+  const intent = INTENTS.reduce((best, candidate) => scores[candidate] > scores[best] ? candidate : best, INTENTS[0]);
+  const total = INTENTS.reduce((sum, candidate) => sum + scores[candidate], 0);
+
+  return {
+    intent,
+    confidence: round(Math.min(1, scores[intent] / 3) * (scores[intent] / total)),
+  };
+}
+
+// The subject of a topic with its intent wording removed, falling back to the
+// whole topic when nothing would be left
+export function intentSubject(topic: string): string {
+  let subject = topic.trim().replace(/\?+$/, '');
+  let previous: string;
+  do {
+    previous = subject;
+    subject = subject.replace(LEADING_INTENT, '').replace(TRAILING_INTENT, '').trim();
+  } while (subject !== previous && subject.length > 0);
+  return subject || topic.trim();
+}
@@ -0,0 +1,57 @@
+import type { Language } from "../schema";
+import { tokenize } from "./tokenizer";
+import { STOPWORDS_BY_LANGUAGE } from "./stopwords";
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+  it: "Italian",
+};
+
+// Letters that only (or mostly) appear in one of the supported languages
+const distinctiveLetters: Partial<Record<Language, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  fr: /[èêëîœç]/g,
+  de: /[äöüß]/g,
+  pt: /[ãõ]/g,
+  it: /[ìò]/g,
+};
+
+// Short English titles often contain a lone token that is a function word
+// elsewhere ("vitamin e", "de facto", "la la land"). Another language needs
+// this many distinct pieces of evidence (function words, plus one for any
+// distinctive letters) and this much lead over English before it is chosen.
+const MIN_EVIDENCE = 2;
+const MIN_LEAD_OVER_ENGLISH = 1.5;
+
+// Pick the language whose function words occur most often in the text, using
+// distinctive letters as a tie-breaker. Falls back to English.
+export function detectLanguage(text: string): Language {
+  const tokens = tokenize(text);
+  const lower = text.toLowerCase();
+
+  const scores = (Object.keys(STOPWORDS_BY_LANGUAGE) as Language[]).map(language => {
+    const stopwords = STOPWORDS_BY_LANGUAGE[language];
+    const hits = tokens.filter(token => stopwords.has(token));
+    const pattern = distinctiveLetters[language];
+    const letters = pattern ? (lower.match(pattern) || []).length : 0;
+    return {
+      language,
+      score: hits.length + letters * 0.5,
+      evidence: new Set(hits).size + (letters > 0 ? 1 : 0),
+    };
+  });
+
+  const english = scores.find(entry => entry.language === "en")!;
+  const best = scores
+    .filter(entry => entry.language !== "en")
+    .reduce((top, entry) => entry.score > top.score ? entry : top);
+
+  if (best.evidence >= MIN_EVIDENCE && best.score >= english.score + MIN_LEAD_OVER_ENGLISH) {
+    return best.language;
+  }
+  return "en";
+}
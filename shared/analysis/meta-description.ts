@@ -0,0 +1,269 @@
+import type { MetaAudience, MetaDescriptionCandidate, Tone } from "../schema";
+import { extractKeywords } from "./stopwords";
+import { parseKeywordList } from "./tokenizer";
+import { createRandom, type Random } from "./random";
+
+export const META_DESCRIPTION_MAX_LENGTH = 160;
+export const META_DESCRIPTION_MIN_LENGTH = 120;
+
+const audienceModifiers: Record<MetaAudience, string> = {
+  'beginners': 'Perfect for newcomers and those just getting started.',
+  'intermediate': 'Ideal for anyone ready to move beyond the basics.',
+  'advanced': 'Advanced strategies for experienced professionals.',
+  'business-owners': 'Tailored specifically for business leaders and entrepreneurs.',
+  'marketers': 'Essential insights for marketing professionals.',
+  'developers': 'Technical guidance for developers and engineers.',
+  'students': 'Easy-to-follow guide designed for learners.'
+};
+
+// Words that show a description is written for the audience, matched at the
+// start of a word so "beginner" also finds "beginners"
+const audienceTerms: Record<MetaAudience, string[]> = {
+  'beginners': ['beginner', 'newcomer', 'novice', 'new to', 'getting started', 'get started', 'first-time', 'first time', 'basics', 'step-by-step', 'easy'],
+  'intermediate': ['intermediate', 'beyond the basics', 'next level', 'next step', 'level up', 'build on', 'sharpen'],
+  'advanced': ['advanced', 'expert', 'experienced', 'professional', 'in-depth', 'deep dive', 'sophisticated'],
+  'business-owners': ['business', 'owner', 'entrepreneur', 'founder', 'leader', 'company', 'companies', 'revenue', 'ROI'],
+  'marketers': ['marketer', 'marketing', 'campaign', 'brand', 'conversion', 'funnel'],
+  'developers': ['developer', 'engineer', 'programmer', 'coder', 'code', 'technical', 'API', 'devs'],
+  'students': ['student', 'learner', 'study', 'studies', 'class', 'course', 'exam', 'school', 'college', 'university'],
+};
+
+interface ToneTemplates {
+  // Each template is an opening hook followed by a supporting sentence
+  templates: (keyword: string, topic: string, title: string) => [string, string][];
+  closers: string[];
+  brandLine: (brandName: string) => string;
+}
+
+const toneTemplates: Record<Tone, ToneTemplates> = {
+  professional: {
+    templates: (keyword, topic, title) => [
+      [`Discover ${keyword} with our comprehensive guide.`, `Learn proven strategies, expert tips, and practical insights for better results.`],
+      [`Master ${keyword} using our step-by-step approach.`, `Get actionable advice from industry experts and transform your results today.`],
+      [`Everything you need to know about ${topic}.`, `Expert insights, practical tips, and proven strategies that work.`],
+      [`${title} made simple.`, `Get practical advice, proven techniques, and expert insights to achieve your goals faster.`],
+      [`Unlock the secrets of ${topic}.`, `Professional strategies, real-world examples, and actionable steps included.`],
+    ],
+    closers: [
+      'Read now and see the difference!',
+      'Start your journey today.',
+      'Join thousands who\'ve already benefited.',
+      'See real results fast.',
+      'Transform your approach today.',
+      'Get started in minutes.'
+    ],
+    brandLine: brandName => `Expert guidance from ${brandName}.`,
+  },
+  casual: {
+    templates: (keyword, topic) => [
+      [`Want to get better at ${keyword}?`, `Here's the no-fluff rundown with quick tips and real examples.`],
+      [`${capitalize(topic)}, minus the jargon.`, `Learn what actually works and skip what doesn't.`],
+      [`Struggling with ${keyword}? Same here, once.`, `Check out the simple fixes that finally made it click.`],
+      [`Let's talk ${keyword}.`, `Easy wins, honest takes, and tips you can try this afternoon.`],
+    ],
+    closers: [
+      'Give it a read!',
+      'Try it out today.',
+      'Dive in, it\'s quick.',
+      'See what you\'ve been missing.',
+    ],
+    brandLine: brandName => `Brought to you by ${brandName}.`,
+  },
+  friendly: {
+    templates: (keyword, topic) => [
+      [`New to ${keyword}? We'll walk you through it step by step.`, `Helpful tips and examples you can use right away.`],
+      [`Let's explore ${topic} together.`, `Clear explanations, friendly advice, and no pressure along the way.`],
+      [`Feeling stuck with ${keyword}?`, `You're not alone. Learn simple, encouraging steps to make real progress.`],
+      [`Your friendly guide to ${topic}.`, `Discover practical ideas, kind advice, and small wins that add up.`],
+    ],
+    closers: [
+      'Let\'s get started together!',
+      'We\'re here to help you grow.',
+      'Start whenever you\'re ready.',
+      'Join our growing community.',
+    ],
+    brandLine: brandName => `From your friends at ${brandName}.`,
+  },
+  authoritative: {
+    templates: (keyword, topic) => [
+      [`The definitive guide to ${topic}.`, `Evidence-based strategies and expert analysis trusted by professionals.`],
+      [`What top performers know about ${keyword}.`, `Learn the proven framework behind consistent, measurable results.`],
+      [`${capitalize(keyword)}, explained by practitioners.`, `Research-backed methods, benchmarks, and the mistakes to avoid.`],
+      [`Master ${keyword} with a rigorous, tested approach.`, `Get the standards and best practices the industry relies on.`],
+    ],
+    closers: [
+      'Learn what the experts know.',
+      'Get the proven framework.',
+      'Read the complete analysis.',
+      'See the data for yourself.',
+    ],
+    brandLine: brandName => `Trusted insights from ${brandName}.`,
+  },
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function truncateMetaDescription(description: string): string {
+  return description.length > META_DESCRIPTION_MAX_LENGTH
+    ? description.substring(0, META_DESCRIPTION_MAX_LENGTH - 3) + "..."
+    : description;
+}
+
+// Openers and closers that ask the reader to do something
+const CALL_TO_ACTION_PATTERN = /\b(discover|learn|master|unlock|get|start|read|join|see|transform|find out|try|check out|dive|explore)\b/gi;
+
+export interface MetaDescriptionOptions {
+  audience?: MetaAudience;
+  // Comma-separated; the first keyword is the one candidates are scored on
+  keywords?: string;
+  tone?: Tone;
+  brandName?: string;
+  count?: number;
+}
+
+function scoreLength(description: string): { points: number; note: string } {
+  const { length } = description;
+  if (description.endsWith('...')) {
+    return { points: 15, note: `cut off at ${META_DESCRIPTION_MAX_LENGTH} characters` };
+  }
+  if (length >= META_DESCRIPTION_MIN_LENGTH && length <= META_DESCRIPTION_MAX_LENGTH) {
+    return { points: 30, note: `${length} characters, inside the ${META_DESCRIPTION_MIN_LENGTH}-${META_DESCRIPTION_MAX_LENGTH} range` };
+  }
+  if (length >= 100) {
+    return { points: 20, note: `${length} characters, slightly short of ${META_DESCRIPTION_MIN_LENGTH}` };
+  }
+  return { points: 10, note: `${length} characters, too short to fill the snippet` };
+}
+
+function scoreKeyword(description: string, keyword: string): { points: number; note: string } {
+  const position = description.toLowerCase().indexOf(keyword.toLowerCase());
+  if (position === -1) {
+    return { points: 0, note: `does not mention "${keyword}"` };
+  }
+  // Google bolds matching terms; an early mention survives mobile truncation
+  if (position < 60) {
+    return { points: 30, note: `mentions "${keyword}" early` };
+  }
+  return { points: 20, note: `mentions "${keyword}"` };
+}
+
+function scoreCallToAction(description: string): { points: number; note: string } {
+  const verbs = Array.from(new Set((description.match(CALL_TO_ACTION_PATTERN) || []).map(verb => verb.toLowerCase())));
+  if (verbs.length >= 2) {
+    return { points: 20, note: `strong call to action (${verbs.slice(0, 3).join(', ')})` };
+  }
+  if (verbs.length === 1) {
+    return { points: 12, note: `a single call to action (${verbs[0]})` };
+  }
+  return { points: 0, note: 'no call to action' };
+}
+
+function scoreAudience(description: string, audience?: MetaAudience): { points: number; note: string } {
+  if (!audience) {
+    return { points: 20, note: 'no audience selected' };
+  }
+  for (const term of audienceTerms[audience]) {
+    const match = new RegExp(`\\b${term}[\\w-]*`, 'i').exec(description);
+    if (match) {
+      return { points: 20, note: `speaks to ${audience.replace(/-/g, ' ')} ("${match[0]}")` };
+    }
+  }
+  return { points: 0, note: `does not address ${audience.replace(/-/g, ' ')}` };
+}
+
+export function scoreMetaDescription(description: string, keyword: string, audience?: MetaAudience): MetaDescriptionCandidate {
+  const length = scoreLength(description);
+  const keywordScore = scoreKeyword(description, keyword);
+  const callToAction = scoreCallToAction(description);
+  const audienceScore = scoreAudience(description, audience);
+
+  const notes = [length.note, keywordScore.note, callToAction.note, audienceScore.note];
+  return {
+    content: description,
+    length: description.length,
+    score: length.points + keywordScore.points + callToAction.points + audienceScore.points,
+    breakdown: {
+      length: length.points,
+      keyword: keywordScore.points,
+      callToAction: callToAction.points,
+      audience: audienceScore.points,
+    },
+    explanation: notes.join('; ').replace(/^./, c => c.toUpperCase()) + '.',
+  };
+}
+
+// The first target keyword, or the strongest keyword in the title
+export function getMainKeyword(title: string, keywords?: string): string {
+  return parseKeywordList(keywords)[0] || extractKeywords(title.trim())[0] || 'topic';
+}
+
+// Score descriptions against the title's main keyword and return the best
+// `count` of them, highest score first. The random source only orders
+// candidates with equal scores.
+export function rankMetaDescriptions(descriptions: string[], title: string, options: MetaDescriptionOptions = {}, random: Random = createRandom()): MetaDescriptionCandidate[] {
+  const { audience, keywords, count = 5 } = options;
+  const mainKeyword = getMainKeyword(title, keywords);
+
+  const ranked = random.shuffle(Array.from(new Set(descriptions)))
+    .map(description => scoreMetaDescription(description, mainKeyword, audience))
+    .sort((a, b) => b.score - a.score);
+
+  // Prefer one candidate per opening sentence before offering a variation of any of them
+  const seenOpenings = new Set<string>();
+  const distinct: MetaDescriptionCandidate[] = [];
+  const rest: MetaDescriptionCandidate[] = [];
+  ranked.forEach(candidate => {
+    const opening = candidate.content.split('.')[0];
+    if (seenOpenings.has(opening)) {
+      rest.push(candidate);
+    } else {
+      seenOpenings.add(opening);
+      distinct.push(candidate);
+    }
+  });
+
+  return [...distinct, ...rest].slice(0, count);
+}
+
+// Build every template and closing line combination and rank them
+export function generateMetaDescriptionCandidates(title: string, options: MetaDescriptionOptions = {}, random: Random = createRandom()): MetaDescriptionCandidate[] {
+  const { audience, keywords, tone = "professional", brandName } = options;
+  const cleanTitle = title.trim();
+  const mainKeyword = getMainKeyword(cleanTitle, keywords);
+
+  const { templates, closers, brandLine } = toneTemplates[tone];
+  // With a brand name every candidate closes on the brand line instead of a generic call to action
+  const closingLines = brandName?.trim() ? [brandLine(brandName.trim())] : closers;
+  const audienceLine = audience ? audienceModifiers[audience] : undefined;
+
+  const descriptions = new Set<string>();
+  templates(mainKeyword, cleanTitle.toLowerCase(), cleanTitle).forEach(([hook, support]) => {
+    const bodies = [`${hook} ${support}`];
+    if (audienceLine) {
+      // The audience line either follows the template or, when space is short, replaces its second sentence
+      bodies.push(`${hook} ${support} ${audienceLine}`, `${hook} ${audienceLine}`);
+    }
+
+    bodies.forEach(body => {
+      if (!brandName?.trim()) {
+        descriptions.add(truncateMetaDescription(body));
+      }
+      // Only offer closing lines that fit without cutting the description short
+      closingLines
+        .map(closer => `${body} ${closer}`)
+        .filter(withCloser => withCloser.length <= META_DESCRIPTION_MAX_LENGTH)
+        .forEach(withCloser => descriptions.add(withCloser));
+    });
+  });
+
+  // A long brand name can leave nothing that fits; fall back to hook plus brand
+  if (descriptions.size === 0) {
+    templates(mainKeyword, cleanTitle.toLowerCase(), cleanTitle).forEach(([hook]) => {
+      descriptions.add(truncateMetaDescription(`${hook} ${closingLines[0]}`));
+    });
+  }
+
+  return rankMetaDescriptions(Array.from(descriptions), cleanTitle, options, random);
+}
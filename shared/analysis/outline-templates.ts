@@ -0,0 +1,148 @@
+import type { SearchIntent } from "../schema";
+import { toTitleCase } from "./title-case";
+
+export interface OutlineTemplateSection {
+  heading: string;
+  level: number;
+  subsections: string[];
+}
+
+// The subject as it reads in a heading
+function headingCase(subject: string): string {
+  return toTitleCase(subject).converted;
+}
+
+// "Ahrefs vs Semrush" or "SEO and SEM" compares its two named sides;
+// anything else compares options in general
+function comparisonSides(subject: string): [string, string] {
+  const sides = subject.split(/\s+(?:vs\.?|versus|or|and|compared (?:to|with))\s+/i).map(side => side.trim()).filter(Boolean);
+  return sides.length === 2 ? [sides[0], sides[1]] : ["the first option", "the second option"];
+}
+
+// Lists with no number in the topic get five entries; long ones ("100 blog
+// post ideas") are outlined as their first fifteen
+const DEFAULT_LIST_LENGTH = 5;
+const MAX_LIST_LENGTH = 15;
+
+// Words that end the noun a listicle counts ("SEO tools" in "10 SEO tools for
+// small teams")
+const LIST_NOUN_END = /^(for|to|in|on|of|with|that|you|your|every|which|when|from|about|and|or)$/i;
+
+// Entries cycle through these so neighbouring items do not repeat each other
+const LIST_ITEM_SUBSECTIONS: ((keyword: string) => string[])[] = [
+  () => ["What it is", "Why it made the list"],
+  () => ["How to put it to work", "A quick example"],
+  () => ["Who it suits best", "What to watch out for"],
+  keyword => [`Where it fits in ${keyword}`, "Getting the most from it"],
+];
+
+// How many entries the topic promises: "10 best...", "top 7..."
+export function listLength(topic: string): number {
+  const count = /^(?:the\s+)?(?:top\s+)?(\d+)\b|\btop\s+(\d+)\b/i.exec(topic.trim());
+  const length = count ? Number(count[1] || count[2]) : DEFAULT_LIST_LENGTH;
+  return Math.min(Math.max(length, 1), MAX_LIST_LENGTH);
+}
+
+function singular(word: string): string {
+  if (/[^aeiou]ies$/i.test(word)) return word.slice(0, -3) + "y";
+  if (/(ch|sh|ss|x)es$/i.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// The thing being counted, in the singular: "SEO tool" for "10 best SEO tools
+// for small teams", "way" for "7 ways to save money"
+function listNoun(topic: string, subject: string): string {
+  const words = topic.trim()
+    .replace(/^(?:the\s+)?(?:top\s+)?\d+\s+|^(?:the\s+)?top\s+/i, "")
+    .replace(/^(?:best|great|essential|proven|simple|easy)\s+/i, "")
+    .split(/\s+/);
+  const end = words.findIndex(word => LIST_NOUN_END.test(word));
+  const noun = (end > 0 ? words.slice(0, end) : words).join(" ") || subject;
+  return noun.replace(/\S+$/, singular);
+}
+
+const section = (heading: string, subsections: string[]): OutlineTemplateSection => ({ heading, level: 2, subsections });
+
+// One outline per search intent, built from the topic's subject and primary
+// keyword, and for listicles the topic itself. Every template opens with an introduction and closes with a
+// conclusion so audience sections have somewhere to go.
+export const OUTLINE_TEMPLATES: Record<SearchIntent, (subject: string, keyword: string, topic: string) => OutlineTemplateSection[]> = {
+  informational: (subject, keyword) => [
+    section("Introduction", [`Understanding ${keyword}`, "Why this guide exists", "Who this is for"]),
+    section("The Fundamentals", ["Core concepts explained", "Essential terminology", "Building your foundation"]),
+    section("Practical Application", ["Real-world examples", "Case studies", "Hands-on exercises"]),
+    section("Advanced Concepts", ["Complex scenarios", "Expert-level insights", "Industry secrets"]),
+    section("Implementation Strategy", ["Planning your approach", "Timeline and milestones", "Resource allocation"]),
+    section("Measuring Results", ["Key metrics to track", "Analysis techniques", "Continuous improvement"]),
+    section("Conclusion", ["Putting it all together", "Long-term strategy", "Where to go next"]),
+  ],
+
+  "how-to": (subject) => [
+    // The subject may be a task ("set up a blog") or a thing ("SEO")
+    section("Introduction", [`${subject.charAt(0).toUpperCase()}${subject.slice(1)}: what's involved`, "Why it matters", "What you'll achieve"]),
+    section("Getting Started", ["Prerequisites", "Tools you'll need", "Setting expectations"]),
+    section("Step-by-Step Process", ["Phase 1: Foundation", "Phase 2: Implementation", "Phase 3: Optimization"]),
+    section("Best Practices", ["Pro tips from experts", "Common mistakes to avoid", "Time-saving shortcuts"]),
+    section("Advanced Strategies", ["Next-level techniques", "Scaling your efforts", "Measuring success"]),
+    section("Troubleshooting", ["Common issues", "Quick fixes", "When to seek help"]),
+    section("Conclusion", ["Key takeaways", "Your next steps", "Additional resources"]),
+  ],
+
+  comparison: (subject) => {
+    const [first, second] = comparisonSides(subject);
+    return [
+      section("Introduction", [`${first} and ${second} at a glance`, "Why the choice matters", "How we compared them"]),
+      section("Key Differences", ["Features and capabilities", "Ease of use", "Cost and value"]),
+      section(headingCase(`Where ${first} wins`), ["Strengths", "Best use cases", "Who it suits"]),
+      section(headingCase(`Where ${second} wins`), ["Strengths", "Best use cases", "Who it suits"]),
+      section("Side-by-Side Comparison", ["Performance", "Support and community", "Long-term considerations"]),
+      section("Which Should You Choose?", [`Choose ${first} if...`, `Choose ${second} if...`, "When neither fits"]),
+      section("Conclusion", ["The verdict", "Next steps"]),
+    ];
+  },
+
+  review: (subject) => [
+    section("Introduction", [`What ${subject} is`, "Who it's for", "Our verdict in brief"]),
+    section("Overview and Key Features", ["What it does", "Standout features", "What's new"]),
+    section("Hands-On Experience", ["Setup and first impressions", "Day-to-day use", "Performance"]),
+    section("Pros and Cons", ["What we liked", "What could be better"]),
+    section("Pricing and Value", ["Plans and pricing", "Is it worth it?"]),
+    section("Alternatives to Consider", ["Similar options", "When to choose something else"]),
+    section("Conclusion", ["Final verdict", "Who should use it"]),
+  ],
+
+  // One numbered entry per promised item; square brackets mark the names only
+  // the author can supply
+  listicle: (subject, keyword, topic) => {
+    const noun = headingCase(listNoun(topic, subject));
+    const items = Array.from({ length: listLength(topic) }, (_, index) =>
+      section(`${index + 1}. [${noun} ${index + 1}]`, LIST_ITEM_SUBSECTIONS[index % LIST_ITEM_SUBSECTIONS.length](keyword)));
+    return [
+      section("Introduction", [`Why ${subject} matters`, "How we chose this list"]),
+      ...items,
+      section("Advanced Ideas Worth Trying", ["Next-level techniques", "When you're ready for them"]),
+      section("Conclusion", ["Quick recap", "Where to start today"]),
+    ];
+  },
+
+  definition: (subject) => [
+    section("Introduction", [`${subject} in one sentence`, "Why the term matters", "Who uses it"]),
+    section(headingCase(`What is ${subject}?`), ["A plain-language definition", "Where the term comes from", "Related terms"]),
+    section("How It Works", ["The core idea", "A simple example", "Key components"]),
+    section("Why It Matters", ["Benefits", "Real-world applications"]),
+    section("Common Misconceptions", ["What it is not", "Myths worth dropping"]),
+    section("Advanced Concepts", ["Edge cases", "How experts use it"]),
+    section("Conclusion", ["Key takeaways", "Where to learn more"]),
+  ],
+
+  commercial: (subject) => [
+    section("Introduction", ["What to look for", "Who this buying guide is for", "How we evaluated the options"]),
+    section("Top Options at a Glance", ["Best overall", "Best value", "Best for beginners"]),
+    section("Key Features to Compare", ["Must-have features", "Nice-to-have extras", "Red flags"]),
+    section("Pricing and Plans", [`What ${subject} typically costs`, "Free versus paid", "Hidden costs"]),
+    section("How to Choose", ["Match features to your needs", "Questions to ask before buying", "Trials and guarantees"]),
+    section("Advanced Buying Considerations", ["Scaling and upgrades", "Contracts and support"]),
+    section("Conclusion", ["Our recommendation", "Next steps"]),
+  ],
+};
@@ -0,0 +1,86 @@
+// Estimates rendered text width from Arial advance widths, the font Google
+// uses for search result snippets. Widths are in thousandths of an em, so a
+// character's pixel width is width * fontSize / 1000.
+const ARIAL_WIDTHS: Record<string, number> = {
+  ' ': 278, '!': 278, '"': 355, '#': 556, '$': 556, '%': 889, '&': 667, "'": 191,
+  '(': 333, ')': 333, '*': 389, '+': 584, ',': 278, '-': 333, '.': 278, '/': 278,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556,
+  '8': 556, '9': 556, ':': 278, ';': 278, '<': 584, '=': 584, '>': 584, '?': 556,
+  '@': 1015, 'A': 667, 'B': 667, 'C': 722, 'D': 722, 'E': 667, 'F': 611, 'G': 778,
+  'H': 722, 'I': 278, 'J': 500, 'K': 667, 'L': 556, 'M': 833, 'N': 722, 'O': 778,
+  'P': 667, 'Q': 778, 'R': 722, 'S': 667, 'T': 611, 'U': 722, 'V': 667, 'W': 944,
+  'X': 667, 'Y': 667, 'Z': 611, '[': 278, '\\': 278, ']': 278, '^': 469, '_': 556,
+  '`': 333, 'a': 556, 'b': 556, 'c': 500, 'd': 556, 'e': 556, 'f': 278, 'g': 556,
+  'h': 556, 'i': 222, 'j': 222, 'k': 500, 'l': 222, 'm': 833, 'n': 556, 'o': 556,
+  'p': 556, 'q': 556, 'r': 333, 's': 500, 't': 278, 'u': 556, 'v': 500, 'w': 722,
+  'x': 500, 'y': 500, 'z': 500, '{': 334, '|': 260, '}': 334, '~': 584,
+  // Typographic punctuation common in titles
+  '–': 556, '—': 1000, '‘': 222, '’': 222, '“': 333, '”': 333,
+  '•': 350, '…': 1000, '\u00a0': 278, '·': 278, '©': 737, '®': 737,
+};
+
+const DEFAULT_WIDTH = 556;
+const WIDE_WIDTH = 1000;
+
+export const SERP_ELLIPSIS = ' ...';
+
+function characterWidth(char: string): number {
+  const known = ARIAL_WIDTHS[char];
+  if (known !== undefined) return known;
+
+  // Accented Latin letters ("é", "ñ") are as wide as their base letter
+  const base = char.normalize('NFD').charAt(0);
+  if (ARIAL_WIDTHS[base] !== undefined) return ARIAL_WIDTHS[base];
+
+  // CJK ideographs, kana, hangul and emoji take a full em
+  if (/[\u1100-\u11FF\u2E80-\uA4CF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFF60]|\p{Extended_Pictographic}/u.test(char)) {
+    return WIDE_WIDTH;
+  }
+  return DEFAULT_WIDTH;
+}
+
+export function measureTextWidth(text: string, fontSize: number): number {
+  let units = 0;
+  for (const char of Array.from(text)) {
+    units += characterWidth(char);
+  }
+  return units * fontSize / 1000;
+}
+
+export interface TruncatedText {
+  text: string;
+  width: number;
+  truncated: boolean;
+}
+
+// Cut text the way Google does: at the last whole word that still leaves room
+// for the ellipsis, falling back to a character cut for a single long word.
+export function truncateToPixelWidth(text: string, maxWidth: number, fontSize: number): TruncatedText {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const fullWidth = measureTextWidth(clean, fontSize);
+  if (fullWidth <= maxWidth) {
+    return { text: clean, width: Math.round(fullWidth), truncated: false };
+  }
+
+  const available = maxWidth - measureTextWidth(SERP_ELLIPSIS, fontSize);
+  const words = clean.split(' ');
+  let kept = '';
+  for (const word of words) {
+    const candidate = kept ? `${kept} ${word}` : word;
+    if (measureTextWidth(candidate, fontSize) > available) break;
+    kept = candidate;
+  }
+
+  if (!kept) {
+    const chars = Array.from(clean);
+    while (chars.length > 0 && measureTextWidth(chars.join(''), fontSize) > available) {
+      chars.pop();
+    }
+    kept = chars.join('');
+  }
+
+  // Trailing punctuation before the ellipsis reads oddly ("Guide: ...")
+  kept = kept.replace(/[\s,;:\-–—|]+$/, '');
+  const result = kept + SERP_ELLIPSIS;
+  return { text: result, width: Math.round(measureTextWidth(result, fontSize)), truncated: true };
+}
@@ -0,0 +1,48 @@
+// Seedable pseudo-random numbers for the template generators. The same seed
+// always produces the same sequence, so any generated result can be reproduced
+// by sending back the seed it reports.
+
+export const MAX_SEED = 0xffffffff;
+
+export interface Random {
+  seed: number;
+  // Float in [0, 1)
+  next(): number;
+  // Integer in [0, max)
+  int(max: number): number;
+  pick<T>(items: readonly T[]): T;
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+// mulberry32: small, fast and well distributed for a 32-bit state
+export function createRandom(seed: number = randomSeed()): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    seed,
+    next,
+    int,
+    pick: items => items[int(items.length)],
+    shuffle: items => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+  };
+}
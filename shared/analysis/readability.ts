@@ -0,0 +1,151 @@
+import type { Readability, ReadingLevel } from "../schema";
+import { parseDocument, renderDocument } from "./document";
+import { splitSentences } from "./tokenizer";
+
+// Standard readability formulas. They were all calibrated on English prose, so
+// scores for other languages are only a rough guide.
+
+export const WORDS_PER_MINUTE = 250;
+
+// Sentences longer than this are flagged for splitting
+export const LONG_SENTENCE_WORDS = 25;
+
+// Highlighted sentences returned per category; the counts cover all of them
+const MAX_HIGHLIGHTS = 20;
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  "very-easy": "Very easy",
+  easy: "Easy",
+  "fairly-easy": "Fairly easy",
+  standard: "Standard",
+  "fairly-difficult": "Fairly difficult",
+  difficult: "Difficult",
+  "very-difficult": "Very difficult",
+};
+
+// Past participles that do not end in -ed. Listed rather than matched on -en,
+// which would also take "is even" or "are often".
+const IRREGULAR_PARTICIPLES = new Set([
+  "beaten", "begun", "bitten", "bought", "broken", "brought", "built", "caught", "chosen", "done",
+  "drawn", "driven", "eaten", "fallen", "fed", "felt", "forbidden", "forgiven", "forgotten", "found",
+  "frozen", "given", "grown", "held", "hidden", "kept", "known", "laid", "led", "left", "lost", "made",
+  "meant", "met", "paid", "proven", "read", "ridden", "run", "said", "seen", "sent", "set", "shaken",
+  "shown", "sold", "spent", "spoken", "stolen", "sworn", "taken", "taught", "thought", "thrown", "told",
+  "torn", "understood", "woken", "won", "worn", "written",
+]);
+
+// Words ending in -ed that are not participles ("is indeed")
+const NOT_PARTICIPLES = new Set(["indeed", "speed", "seed", "feed", "breed", "proceed", "succeed", "exceed", "hundred", "kindred"]);
+
+// -ed words that after "to be" describe a state rather than an action done to
+// the subject ("we are interested", "they were tired")
+const PREDICATE_ADJECTIVES = new Set([
+  "amazed", "annoyed", "ashamed", "bored", "concerned", "confused", "dedicated", "delighted",
+  "determined", "disappointed", "embarrassed", "excited", "experienced", "frightened", "frustrated",
+  "interested", "involved", "married", "pleased", "prepared", "qualified", "relieved", "satisfied",
+  "scared", "skilled", "surprised", "talented", "tired", "worried",
+]);
+
+// A form of "to be", an optional adverb, then a participle. "Get" forms are
+// left out: "get started" and "got lost" are almost always active in web copy.
+const PASSIVE_VOICE = /\b(am|is|are|was|were|be|been|being)\s+(?:(?:\w+ly|not|never|also|often|always)\s+)?(\w+)\b/gi;
+
+// Contractions and hyphenated compounds count as one word
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export function estimateReadingTime(wordCount: number): number {
+  return Math.ceil(wordCount / WORDS_PER_MINUTE);
+}
+
+// Vowel groups, less a silent final "e" and "-es"/"-ed" endings that add no
+// syllable ("makes", "saved", but not "boxes" or "needed"). Good to within a
+// syllable for most words.
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (letters.length <= 3) return 1;
+  const trimmed = letters
+    .replace(/(?:[^laeiouysxzcgh]es|[^laeiouydt]ed|[^laeiouy]e)$/, match => match[0])
+    .replace(/^y/, "");
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+}
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// The passive construction in a sentence, e.g. "was written", or null
+export function findPassiveVoice(sentence: string): string | null {
+  for (const match of Array.from(sentence.matchAll(PASSIVE_VOICE))) {
+    const participle = match[2].toLowerCase();
+    const regular = participle.endsWith("ed") && participle.length > 3
+      && !NOT_PARTICIPLES.has(participle) && !PREDICATE_ADJECTIVES.has(participle);
+    if (regular || IRREGULAR_PARTICIPLES.has(participle)) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+function readingLevel(ease: number): ReadingLevel {
+  if (ease >= 90) return "very-easy";
+  if (ease >= 80) return "easy";
+  if (ease >= 70) return "fairly-easy";
+  if (ease >= 60) return "standard";
+  if (ease >= 50) return "fairly-difficult";
+  if (ease >= 30) return "difficult";
+  return "very-difficult";
+}
+
+// Score markdown or plain text. Headings, code and tables are skipped, list
+// items count as sentences and bold markup is ignored. Reading ease is clamped to 0-100 and
+// grade levels to 0 and up.
+export function analyzeReadability(content: string): Readability {
+  const prose = renderDocument(parseDocument(content).filter(block => block.type !== "code" && block.type !== "table"));
+  const sentences = splitSentences(prose.replace(/\*\*/g, "").replace(/^\s*>\s?/gm, ""));
+  const words = sentences.flatMap(sentence => sentence.match(WORD) || []);
+  const syllables = words.map(countSyllables);
+
+  const sentenceCount = sentences.length;
+  const wordCount = words.length;
+  const syllableCount = syllables.reduce((sum, count) => sum + count, 0);
+  const polysyllables = syllables.filter(count => count >= 3).length;
+  // Gunning Fog leaves out hyphenated words and words that only reach three
+  // syllables through an -es, -ed or -ing ending
+  const complexWords = words.filter(word => !word.includes("-") && countSyllables(word.replace(/(es|ed|ing)$/i, "")) >= 3).length;
+
+  const wordsPerSentence = sentenceCount ? wordCount / sentenceCount : 0;
+  const syllablesPerWord = wordCount ? syllableCount / wordCount : 0;
+  const hasText = wordCount > 0;
+
+  const fleschReadingEase = hasText ? Math.min(100, Math.max(0, 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)) : 0;
+  const fleschKincaidGrade = hasText ? Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59) : 0;
+  const gunningFog = hasText ? 0.4 * (wordsPerSentence + 100 * (complexWords / wordCount)) : 0;
+  // SMOG is defined over 30 sentences; shorter texts are scaled up to that
+  const smogIndex = hasText ? 1.043 * Math.sqrt(polysyllables * (30 / sentenceCount)) + 3.1291 : 0;
+
+  const long = sentences
+    .map(text => ({ text, wordCount: (text.match(WORD) || []).length }))
+    .filter(sentence => sentence.wordCount > LONG_SENTENCE_WORDS);
+  const passive = sentences.flatMap(text => {
+    const phrase = findPassiveVoice(text);
+    return phrase ? [{ text, phrase }] : [];
+  });
+
+  return {
+    sentenceCount,
+    wordCount,
+    syllableCount,
+    averageSentenceLength: round(wordsPerSentence),
+    averageSyllablesPerWord: round(syllablesPerWord, 2),
+    fleschReadingEase: round(fleschReadingEase),
+    fleschKincaidGrade: round(fleschKincaidGrade),
+    gunningFog: round(gunningFog),
+    smogIndex: round(smogIndex),
+    readingLevel: readingLevel(fleschReadingEase),
+    longSentenceCount: long.length,
+    longSentences: long.slice(0, MAX_HIGHLIGHTS),
+    passiveSentenceCount: passive.length,
+    passiveSentences: passive.slice(0, MAX_HIGHLIGHTS),
+  };
+}
@@ -0,0 +1,188 @@
+import type { SeoRuleDefinition, SeoRuleId, SeoRuleResult, SeoRuleSet, SeoRuleSeverity } from "../schema";
+import { parseDocument } from "./document";
+import { countWords } from "./tokenizer";
+
+export interface SEOScoreResult {
+  score: number;
+  // Suggestions for the rules that failed, most severe first
+  tips: string[];
+  rules: SeoRuleResult[];
+}
+
+interface RuleContext {
+  content: string;
+  title: string;
+  keywords: string[];
+  blocks: ReturnType<typeof parseDocument>;
+}
+
+interface SeoRule {
+  label: string;
+  weight: number;
+  severity: SeoRuleSeverity;
+  min?: number;
+  max?: number;
+  // What the bounds count, in the singular, for the target description
+  unit: string;
+  // The measured value, or null when the rule does not apply
+  measure: (context: RuleContext) => number | null;
+  suggestion: (min?: number, max?: number) => string;
+}
+
+const CTA_PHRASES = ['learn', 'discover', 'get started', 'try', 'download', 'contact', 'subscribe'];
+
+// The default rules. Weights add up to 100, so with every rule applying the
+// score is the total weight of the rules that pass.
+export const SEO_RULES: Record<SeoRuleId, SeoRule> = {
+  titleLength: {
+    label: "Title length",
+    weight: 15,
+    severity: "warning",
+    min: 50,
+    max: 60,
+    unit: "character",
+    measure: ({ title }) => title.length,
+    suggestion: (min, max) => `Title should be ${min}-${max} characters for optimal SEO`,
+  },
+  wordCount: {
+    label: "Content length",
+    weight: 20,
+    severity: "error",
+    min: 300,
+    unit: "word",
+    measure: ({ content }) => countWords(content),
+    suggestion: (min) => `Content should be at least ${min} words for better SEO`,
+  },
+  keywordInTitle: {
+    label: "Keywords in title",
+    weight: 10,
+    severity: "warning",
+    min: 1,
+    unit: "target keyword",
+    measure: ({ title, keywords }) => keywords.length ? keywords.filter(keyword => title.toLowerCase().includes(keyword)).length : null,
+    suggestion: () => "Include your main target keyword in the title",
+  },
+  keywordInContent: {
+    label: "Keywords in content",
+    weight: 15,
+    severity: "error",
+    min: 1,
+    unit: "target keyword",
+    measure: ({ content, keywords }) => keywords.length ? keywords.filter(keyword => content.toLowerCase().includes(keyword)).length : null,
+    suggestion: () => "Include target keywords in title and content",
+  },
+  headings: {
+    label: "Section headings",
+    weight: 15,
+    severity: "warning",
+    min: 3,
+    unit: "H2 heading",
+    measure: ({ blocks }) => blocks.filter(block => block.type === "heading" && block.level === 2).length,
+    suggestion: (min) => `Use at least ${min} H2 headers to structure your content`,
+  },
+  paragraphs: {
+    label: "Paragraphs",
+    weight: 10,
+    severity: "info",
+    min: 4,
+    unit: "paragraph",
+    measure: ({ blocks }) => blocks.filter(block => block.type === "paragraph").length,
+    suggestion: (min) => `Break content into multiple paragraphs (${min}+) for better readability`,
+  },
+  lists: {
+    label: "Lists",
+    weight: 10,
+    severity: "info",
+    min: 1,
+    unit: "list",
+    measure: ({ blocks }) => blocks.filter(block => block.type === "list").length,
+    suggestion: () => "Use bullet points or lists to improve readability",
+  },
+  callToAction: {
+    label: "Call to action",
+    weight: 5,
+    severity: "info",
+    min: 1,
+    unit: "call-to-action phrase",
+    measure: ({ content }) => CTA_PHRASES.filter(phrase => content.toLowerCase().includes(phrase)).length,
+    suggestion: () => "Include a call-to-action to engage readers",
+  },
+};
+
+const RULE_IDS = Object.keys(SEO_RULES) as SeoRuleId[];
+
+const SEVERITY_ORDER: Record<SeoRuleSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// The default rules as clients see them
+export function listSeoRules(): SeoRuleDefinition[] {
+  return RULE_IDS.map(id => {
+    const { label, weight, severity, min, max } = SEO_RULES[id];
+    return { id, label, weight, severity, min, max };
+  });
+}
+
+// Layer rule sets rule by rule, later sets winning
+export function mergeSeoRuleSets(...sets: (SeoRuleSet | undefined)[]): SeoRuleSet {
+  const merged: SeoRuleSet = {};
+  sets.forEach(set => {
+    Object.entries(set || {}).forEach(([id, config]) => {
+      merged[id as SeoRuleId] = { ...merged[id as SeoRuleId], ...config };
+    });
+  });
+  return merged;
+}
+
+function describeTarget(unit: string, min?: number, max?: number): string {
+  const units = (count: number) => count === 1 ? unit : `${unit}s`;
+  if (min !== undefined && max !== undefined) return `${min}-${max} ${units(max)}`;
+  if (min !== undefined) return `at least ${min} ${units(min)}`;
+  if (max !== undefined) return `at most ${max} ${units(max)}`;
+  return `any number of ${units(0)}`;
+}
+
+// Run every enabled rule against a post. The score is the passing rules'
+// share of the total weight of the rules that applied, out of 100.
+export function calculateSEOScore(content: string, title: string, keywords?: string, ruleSet: SeoRuleSet = {}): SEOScoreResult {
+  const context: RuleContext = {
+    content,
+    title,
+    keywords: (keywords || '').toLowerCase().split(',').map(k => k.trim()).filter(Boolean),
+    blocks: parseDocument(content),
+  };
+
+  const rules: SeoRuleResult[] = [];
+  RULE_IDS.forEach(id => {
+    const rule = SEO_RULES[id];
+    const config = ruleSet[id] || {};
+    if (config.enabled === false) return;
+
+    const value = rule.measure(context);
+    if (value === null) return;
+
+    const min = config.min ?? rule.min;
+    const max = config.max ?? rule.max;
+    rules.push({
+      id,
+      label: rule.label,
+      weight: config.weight ?? rule.weight,
+      severity: config.severity ?? rule.severity,
+      passed: (min === undefined || value >= min) && (max === undefined || value <= max),
+      value,
+      target: describeTarget(rule.unit, min, max),
+      suggestion: rule.suggestion(min, max),
+    });
+  });
+
+  const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0);
+  const passedWeight = rules.filter(rule => rule.passed).reduce((sum, rule) => sum + rule.weight, 0);
+  const tips = rules
+    .filter(rule => !rule.passed)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+    .map(rule => rule.suggestion);
+
+  return {
+    score: totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 100) : 0,
+    tips,
+    rules,
+  };
+}
@@ -0,0 +1,52 @@
+import type { SerpPreviewResponse } from "../schema";
+import { truncateToPixelWidth } from "./pixel-width";
+
+// Google cuts snippets by rendered width, not character count. Titles render in
+// 20px Arial; descriptions in 14px. Mobile titles wrap onto a second line,
+// descriptions get a narrower column.
+export const SERP_LIMITS = {
+  desktop: {
+    title: { fontSize: 20, maxWidth: 600 },
+    description: { fontSize: 14, maxWidth: 920 },
+  },
+  mobile: {
+    title: { fontSize: 20, maxWidth: 660 },
+    description: { fontSize: 14, maxWidth: 680 },
+  },
+};
+
+type Device = keyof typeof SERP_LIMITS;
+
+// "https://example.com/blog/seo-tips" -> "example.com › blog › seo-tips"
+export function formatDisplayUrl(url?: string): string {
+  if (!url || !url.trim()) return "www.example.com";
+
+  try {
+    const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url.trim()}`);
+    const segments = parsed.pathname.split('/').filter(segment => segment.length > 0);
+    return [parsed.hostname, ...segments].join(' › ');
+  } catch {
+    return url.trim();
+  }
+}
+
+function previewFor(device: Device, title: string, description: string) {
+  const limits = SERP_LIMITS[device];
+  const line = (text: string, limit: { fontSize: number; maxWidth: number }) => ({
+    ...truncateToPixelWidth(text, limit.maxWidth, limit.fontSize),
+    maxWidth: limit.maxWidth,
+  });
+
+  return {
+    title: line(title, limits.title),
+    description: line(description, limits.description),
+  };
+}
+
+export function buildSerpPreview(title: string, description: string, url?: string): SerpPreviewResponse {
+  return {
+    displayUrl: formatDisplayUrl(url),
+    desktop: previewFor("desktop", title, description),
+    mobile: previewFor("mobile", title, description),
+  };
+}
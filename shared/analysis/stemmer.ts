@@ -0,0 +1,97 @@
+// Porter stemmer (M.F. Porter, 1980) for English. Used to group inflections
+// such as "optimize", "optimizing" and "optimized" under one root.
+
+const step2Suffixes: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble',
+  alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate',
+  ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al',
+  iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+const step3Suffixes: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+const consonant = "[^aeiou]";
+const vowel = "[aeiouy]";
+const consonantSeq = consonant + "[^aeiouy]*";
+const vowelSeq = vowel + "[aeiou]*";
+
+// Measure checks on the stem: m > 0, m == 1, m > 1, and "contains a vowel"
+const measureGt0 = new RegExp("^(" + consonantSeq + ")?" + vowelSeq + consonantSeq);
+const measureEq1 = new RegExp("^(" + consonantSeq + ")?" + vowelSeq + consonantSeq + "(" + vowelSeq + ")?$");
+const measureGt1 = new RegExp("^(" + consonantSeq + ")?" + vowelSeq + consonantSeq + vowelSeq + consonantSeq);
+const hasVowel = new RegExp("^(" + consonantSeq + ")?" + vowel);
+const endsCvc = new RegExp("^" + consonantSeq + vowel + "[^aeiouwxy]$");
+
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  let w = word;
+  const startsWithY = w.charAt(0) === 'y';
+  if (startsWithY) w = 'Y' + w.slice(1);
+
+  // Step 1a: plurals
+  let match: RegExpExecArray | null;
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (measureGt0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    const base = match[1];
+    if (hasVowel.test(base)) {
+      w = base;
+      if (/(at|bl|iz)$/.test(w)) {
+        w += 'e';
+      } else if (/([^aeiouylsz])\1$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (endsCvc.test(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: terminal y
+  if ((match = /^(.+?)y$/.exec(w)) && hasVowel.test(match[1])) {
+    w = match[1] + 'i';
+  }
+
+  // Step 2: double suffixes
+  match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w);
+  if (match && measureGt0.test(match[1])) {
+    w = match[1] + step2Suffixes[match[2]];
+  }
+
+  // Step 3: -ic-, -full, -ness etc.
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w);
+  if (match && measureGt0.test(match[1])) {
+    w = match[1] + step3Suffixes[match[2]];
+  }
+
+  // Step 4: -ant, -ence etc.
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (measureGt1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    const base = match[1] + match[2];
+    if (measureGt1.test(base)) w = base;
+  }
+
+  // Step 5: tidy up trailing -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (measureGt1.test(base) || (measureEq1.test(base) && !endsCvc.test(base))) {
+      w = base;
+    }
+  }
+  if (/ll$/.test(w) && measureGt1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  if (startsWithY) w = 'y' + w.slice(1);
+  return w;
+}
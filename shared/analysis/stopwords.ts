@@ -0,0 +1,100 @@
+import type { Language } from "../schema";
+import { tokenize } from "./tokenizer";
+
+// Word classes the title case style guides treat as minor words
+export const ARTICLES = new Set(['a', 'an', 'the']);
+
+export const COORDINATING_CONJUNCTIONS = new Set(['and', 'but', 'for', 'nor', 'or', 'so', 'yet']);
+
+export const SUBORDINATING_CONJUNCTIONS = new Set([
+  'as', 'if', 'once', 'than', 'that', 'till', 'when', 'while', 'because', 'since', 'unless', 'until', 'whether'
+]);
+
+export const PREPOSITIONS = new Set([
+  'about', 'above', 'across', 'after', 'against', 'along', 'among', 'around', 'as', 'at', 'before',
+  'behind', 'below', 'beneath', 'beside', 'between', 'beyond', 'by', 'despite', 'down', 'during',
+  'except', 'for', 'from', 'in', 'inside', 'into', 'like', 'near', 'of', 'off', 'on', 'onto', 'out',
+  'outside', 'over', 'past', 'per', 'since', 'through', 'throughout', 'till', 'to', 'toward',
+  'towards', 'under', 'underneath', 'until', 'up', 'upon', 'via', 'with', 'within', 'without'
+]);
+
+// Words ignored when picking the main keyword out of a title or topic
+export const KEYWORD_STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'how', 'what', 'where', 'when', 'why', 'complete', 'guide', 'ultimate'
+]);
+
+export function extractKeywords(text: string): string[] {
+  return tokenize(text).filter(word => !KEYWORD_STOPWORDS.has(word) && word.length > 2);
+}
+
+// Common English function words; phrases that start or end with one are not reported
+export const ENGLISH_STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are',
+  'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'even', 'few', 'for',
+  'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him',
+  'himself', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let',
+  'me', 'more', 'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off',
+  'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'same',
+  'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them',
+  'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under',
+  'until', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while',
+  'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves'
+]);
+
+export const SPANISH_STOPWORDS = new Set([
+  'a', 'al', 'algo', 'algunos', 'ante', 'antes', 'como', 'con', 'contra', 'cual', 'cuando', 'de',
+  'del', 'desde', 'donde', 'durante', 'e', 'el', 'ella', 'ellas', 'ellos', 'en', 'entre', 'era',
+  'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta', 'estas', 'este', 'esto', 'estos', 'fue', 'ha',
+  'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'mis', 'muy', 'nada', 'ni', 'no',
+  'nos', 'nosotros', 'o', 'os', 'otra', 'otro', 'para', 'pero', 'poco', 'por', 'porque', 'que',
+  'qué', 'se', 'sea', 'según', 'ser', 'si', 'sí', 'sin', 'sobre', 'son', 'su', 'sus', 'también',
+  'tanto', 'te', 'tiene', 'todo', 'todos', 'tu', 'tus', 'un', 'una', 'uno', 'unos', 'y', 'ya', 'yo'
+]);
+
+export const FRENCH_STOPWORDS = new Set([
+  'à', 'au', 'aux', 'avec', 'ce', 'ces', 'cette', 'comme', 'dans', 'de', 'des', 'du', 'elle',
+  'elles', 'en', 'est', 'et', 'être', 'eu', 'il', 'ils', 'je', 'la', 'le', 'les', 'leur', 'leurs',
+  'lui', 'ma', 'mais', 'me', 'même', 'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ont',
+  'ou', 'où', 'par', 'pas', 'plus', 'pour', 'qu', 'que', 'qui', 'sa', 'sans', 'se', 'ses', 'si',
+  'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tous', 'tout', 'très', 'tu', 'un', 'une',
+  'vos', 'votre', 'vous', 'y', 'c', 'd', 'j', 'l', 'm', 'n', 's', 't'
+]);
+
+export const GERMAN_STOPWORDS = new Set([
+  'aber', 'als', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'da', 'damit',
+  'dann', 'das', 'dass', 'dein', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser',
+  'dieses', 'doch', 'du', 'durch', 'ein', 'eine', 'einem', 'einen', 'einer', 'eines', 'er', 'es',
+  'für', 'hat', 'hatte', 'ich', 'ihr', 'ihre', 'im', 'in', 'ist', 'ja', 'kann', 'kein', 'keine',
+  'man', 'mein', 'mit', 'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'ohne', 'sehr', 'sein',
+  'sich', 'sie', 'sind', 'so', 'über', 'um', 'und', 'uns', 'unter', 'vom', 'von', 'vor', 'war',
+  'was', 'weil', 'wenn', 'wie', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur'
+]);
+
+export const PORTUGUESE_STOPWORDS = new Set([
+  'a', 'ao', 'aos', 'as', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'é', 'ela', 'elas',
+  'ele', 'eles', 'em', 'entre', 'era', 'essa', 'esse', 'esta', 'está', 'este', 'eu', 'foi', 'há',
+  'isso', 'isto', 'já', 'lhe', 'mais', 'mas', 'me', 'mesmo', 'meu', 'minha', 'muito', 'na', 'nas',
+  'não', 'nem', 'no', 'nos', 'nós', 'num', 'numa', 'o', 'os', 'ou', 'para', 'pela', 'pelo', 'por',
+  'qual', 'quando', 'que', 'se', 'sem', 'ser', 'seu', 'seus', 'só', 'sua', 'suas', 'também', 'te',
+  'tem', 'um', 'uma', 'você', 'vocês'
+]);
+
+export const ITALIAN_STOPWORDS = new Set([
+  'a', 'ad', 'al', 'alla', 'alle', 'anche', 'che', 'chi', 'ci', 'come', 'con', 'da', 'dal',
+  'dalla', 'dei', 'del', 'della', 'delle', 'di', 'dove', 'e', 'è', 'ed', 'gli', 'ha', 'hanno',
+  'i', 'il', 'in', 'io', 'la', 'le', 'lei', 'lo', 'loro', 'lui', 'ma', 'mi', 'mio', 'molto', 'ne',
+  'nei', 'nel', 'nella', 'noi', 'non', 'o', 'per', 'perché', 'più', 'quale', 'quando', 'quello',
+  'questa', 'questo', 'se', 'si', 'sono', 'su', 'sua', 'sul', 'sulla', 'suo', 'ti', 'tra', 'tu',
+  'tutto', 'un', 'una', 'uno', 'voi'
+]);
+
+export const STOPWORDS_BY_LANGUAGE: Record<Language, Set<string>> = {
+  en: ENGLISH_STOPWORDS,
+  es: SPANISH_STOPWORDS,
+  fr: FRENCH_STOPWORDS,
+  de: GERMAN_STOPWORDS,
+  pt: PORTUGUESE_STOPWORDS,
+  it: ITALIAN_STOPWORDS,
+};
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TitleCaseStyle } from "../schema";
+import { toTitleCase } from "./title-case";
+
+const convert = (text: string, style: TitleCaseStyle) => toTitleCase(text, { style }).converted;
+
+const GUIDE = "a guide to the best tools for seo and content from start to finish";
+
+test("Chicago lowercases every preposition and the short coordinating conjunctions", () => {
+  assert.equal(convert(GUIDE, "chicago"), "A Guide to the Best Tools for SEO and Content from Start to Finish");
+  assert.equal(convert("fast yet simple recipes", "chicago"), "Fast Yet Simple Recipes");
+});
+
+test("AP capitalizes prepositions of four letters or more", () => {
+  assert.equal(convert(GUIDE, "ap"), "A Guide to the Best Tools for SEO and Content From Start to Finish");
+  assert.equal(convert("fast yet simple recipes", "ap"), "Fast yet Simple Recipes");
+});
+
+test("APA gives the last word no special treatment", () => {
+  assert.equal(convert("what to look for", "apa"), "What to Look for");
+  assert.equal(convert("what to look for", "ap"), "What to Look For");
+});
+
+test("MLA lowercases every preposition and coordinating conjunction", () => {
+  assert.equal(convert(GUIDE, "mla"), "A Guide to the Best Tools for SEO and Content from Start to Finish");
+  assert.equal(convert("fast yet simple recipes", "mla"), "Fast yet Simple Recipes");
+});
+
+test("sentence case only capitalizes the first word", () => {
+  assert.equal(convert(GUIDE, "sentence"), "A guide to the best tools for SEO and content from start to finish");
+});
+
+test("the first word after a colon is capitalized", () => {
+  assert.equal(convert("seo basics: a guide for beginners", "chicago"), "SEO Basics: A Guide for Beginners");
+  assert.equal(convert("seo basics: a guide for beginners", "sentence"), "SEO basics: A guide for beginners");
+});
+
+test("titles typed in capitals are recased rather than kept", () => {
+  assert.equal(convert("THE ULTIMATE GUIDE TO SEO", "chicago"), "The Ultimate Guide to SEO");
+});
+
+test("acronyms and brand names keep their dictionary casing", () => {
+  assert.equal(convert("the iphone and javascript: a love story", "chicago"), "The iPhone and JavaScript: A Love Story");
+  assert.equal(convert("seo tips for wordpress", "sentence"), "SEO tips for WordPress");
+});
+
+test("casing typed on purpose is kept", () => {
+  assert.equal(convert("why McDonald's bets on AMP", "sentence"), "Why McDonald's bets on AMP");
+});
+
+test("brand names that are also words stay capitalized only when typed that way", () => {
+  assert.equal(convert("easy apple pie recipes", "sentence"), "Easy apple pie recipes");
+  assert.equal(convert("why Apple beats Windows", "sentence"), "Why Apple beats Windows");
+  assert.equal(convert("turn the amp up", "sentence"), "Turn the amp up");
+});
+
+test("each part of a hyphenated compound is cased on its own", () => {
+  assert.equal(convert("a step-by-step guide to self-publishing", "chicago"), "A Step-by-Step Guide to Self-Publishing");
+  assert.equal(convert("a step-by-step guide to self-publishing", "sentence"), "A step-by-step guide to self-publishing");
+});
+
+test("dictionary entries with hyphens keep them as spelled", () => {
+  assert.equal(convert("what e-e-a-t means for seo", "chicago"), "What E-E-A-T Means for SEO");
+});
+
+test("a custom dictionary overrides the built-in one", () => {
+  assert.equal(toTitleCase("tips for seo teams", { style: "chicago", customDictionary: "Seo" }).converted, "Tips for Seo Teams");
+});
@@ -0,0 +1,252 @@
+import type { Language, TitleCaseBatchResponse, TitleCaseResponse, TitleCaseStyle } from "../schema";
+import { ARTICLES, COORDINATING_CONJUNCTIONS, PREPOSITIONS, SUBORDINATING_CONJUNCTIONS } from "./stopwords";
+import { detectLanguage, LANGUAGE_NAMES } from "./language";
+import { PRESERVED_CASING, TYPED_BRAND_CASING } from "./casing-dictionary";
+import { parseKeywordList } from "./tokenizer";
+
+export interface TitleCaseOptions {
+  style?: TitleCaseStyle;
+  language?: Language;
+  customDictionary?: string;
+}
+
+type WordResult = TitleCaseResponse["words"][number];
+type CaseDecision = Pick<WordResult, "converted" | "rule">;
+type MinorWordClass = "article" | "conjunction" | "preposition";
+
+interface WordPosition {
+  first: boolean;
+  afterColon: boolean;
+  last: boolean;
+}
+
+// Decides the case of a plain word once punctuation, hyphens and preserved
+// casing have been dealt with
+type CaseRule = (word: string, position: WordPosition) => CaseDecision;
+
+interface StyleGuide {
+  label: string;
+  conjunctions: Set<string>;
+  // Minor words longer than this are capitalized like any other word
+  maxMinorLength: number;
+  capitalizeLastWord: boolean;
+}
+
+const ALL_CONJUNCTIONS = new Set([...Array.from(COORDINATING_CONJUNCTIONS), ...Array.from(SUBORDINATING_CONJUNCTIONS)]);
+
+export const TITLE_CASE_STYLES: Record<Exclude<TitleCaseStyle, "sentence">, StyleGuide> = {
+  // AP: lowercase articles, conjunctions and prepositions of three letters or fewer
+  ap: { label: "AP", conjunctions: ALL_CONJUNCTIONS, maxMinorLength: 3, capitalizeLastWord: true },
+  // Chicago: lowercase articles, every preposition, and "and", "but", "for", "or", "nor"
+  chicago: { label: "Chicago", conjunctions: new Set(['and', 'but', 'for', 'or', 'nor']), maxMinorLength: Infinity, capitalizeLastWord: true },
+  // APA: words of four letters or more are capitalized; the last word gets no special treatment
+  apa: { label: "APA", conjunctions: ALL_CONJUNCTIONS, maxMinorLength: 3, capitalizeLastWord: false },
+  // MLA: lowercase articles, every preposition and the coordinating conjunctions
+  mla: { label: "MLA", conjunctions: COORDINATING_CONJUNCTIONS, maxMinorLength: Infinity, capitalizeLastWord: true },
+  // Bluebook: lowercase articles, conjunctions and prepositions of four letters or fewer
+  bluebook: { label: "Bluebook", conjunctions: ALL_CONJUNCTIONS, maxMinorLength: 4, capitalizeLastWord: false },
+};
+
+export const TITLE_CASE_STYLE_LABELS: Record<TitleCaseStyle, string> = {
+  ap: "AP",
+  chicago: "Chicago",
+  apa: "APA",
+  mla: "MLA",
+  bluebook: "Bluebook",
+  sentence: "Sentence case",
+};
+
+const MIDDLE: WordPosition = { first: false, afterColon: false, last: false };
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// A capital anywhere after the first letter ("SEO", "iPhone", "McDonald")
+// means the writer chose that casing on purpose
+function hasIntentionalCasing(word: string): boolean {
+  return /\p{Lu}/u.test(word.slice(1));
+}
+
+function classifyMinorWord(word: string, guide: StyleGuide): MinorWordClass | null {
+  if (ARTICLES.has(word)) return "article";
+  if (guide.conjunctions.has(word)) return "conjunction";
+  if (PREPOSITIONS.has(word)) return "preposition";
+  return null;
+}
+
+function minorWordRule(wordClass: MinorWordClass, guide: StyleGuide): string {
+  if (wordClass === "article") return "Kept articles lowercase (a, an, the)";
+  const lengthNote = Number.isFinite(guide.maxMinorLength) ? ` of ${guide.maxMinorLength} letters or fewer` : "";
+  return `Kept ${wordClass}s${lengthNote} lowercase`;
+}
+
+function styleGuideRule(guide: StyleGuide): CaseRule {
+  return (word, position) => {
+    const lower = word.toLowerCase();
+    if (position.first) {
+      return { converted: capitalize(lower), rule: "Capitalized the first word" };
+    }
+    if (position.afterColon) {
+      return { converted: capitalize(lower), rule: "Capitalized the first word after a colon" };
+    }
+    if (guide.capitalizeLastWord && position.last) {
+      return { converted: capitalize(lower), rule: "Capitalized the last word" };
+    }
+
+    const wordClass = classifyMinorWord(lower, guide);
+    if (wordClass) {
+      if (lower.length <= guide.maxMinorLength) {
+        return { converted: lower, rule: minorWordRule(wordClass, guide) };
+      }
+      return { converted: capitalize(lower), rule: `Capitalized ${wordClass}s longer than ${guide.maxMinorLength} letters` };
+    }
+
+    return { converted: capitalize(lower), rule: "Capitalized major words (nouns, verbs, adjectives, adverbs)" };
+  };
+}
+
+const englishSentenceRule: CaseRule = (word, position) => {
+  const lower = word.toLowerCase();
+  if (position.first) {
+    return { converted: capitalize(lower), rule: "Capitalized the first word" };
+  }
+  if (position.afterColon) {
+    return { converted: capitalize(lower), rule: "Capitalized the first word after a colon" };
+  }
+  if (lower === 'i') {
+    return { converted: 'I', rule: "Capitalized the pronoun \"I\"" };
+  }
+  return { converted: lower, rule: "Lowercased words after the first (sentence case)" };
+};
+
+// Spanish, French, Portuguese, Italian and German headlines use sentence case.
+// Only the first word is forced to a capital; capitals typed elsewhere are kept
+// because they mark proper nouns (and, in German, every noun).
+function nativeSentenceRule(language: Language): CaseRule {
+  const keptRule = language === "de"
+    ? "Kept noun capitalization as typed (German capitalizes all nouns)"
+    : "Kept capitalized proper nouns as typed";
+
+  return (word, position) => {
+    if (position.first) {
+      return { converted: capitalize(word), rule: `Capitalized the first word (${LANGUAGE_NAMES[language]} titles use sentence case)` };
+    }
+    if (position.afterColon) {
+      return { converted: capitalize(word), rule: "Capitalized the first word after a colon" };
+    }
+    return { converted: word, rule: keptRule };
+  };
+}
+
+function createWordConverter(rule: CaseRule, customDictionary: Map<string, string>, keepTypedCasing: boolean) {
+  const convertPart = (word: string, position: WordPosition): CaseDecision => {
+    const custom = customDictionary.get(word.toLowerCase());
+    if (custom) {
+      return { converted: custom, rule: "Kept custom dictionary casing" };
+    }
+    const preserved = PRESERVED_CASING.get(word.toLowerCase());
+    if (preserved) {
+      return { converted: preserved, rule: "Kept dictionary casing for acronyms and brand names" };
+    }
+    const brand = TYPED_BRAND_CASING.get(word.toLowerCase());
+    if (brand && keepTypedCasing && /^\p{Lu}/u.test(word)) {
+      return { converted: brand, rule: "Kept a brand name capitalized as typed" };
+    }
+    if (keepTypedCasing && hasIntentionalCasing(word)) {
+      return { converted: word, rule: "Kept acronym and brand casing as typed" };
+    }
+    return rule(word, position);
+  };
+
+  const convertCompound = (core: string, position: WordPosition): CaseDecision => {
+    const parts = core.split('-');
+    // Dictionary entries such as "E-E-A-T" keep their hyphens as spelled
+    const key = core.toLowerCase();
+    if (parts.length === 1 || customDictionary.has(key) || PRESERVED_CASING.has(key)) {
+      return convertPart(core, position);
+    }
+
+    // "step-by-step" -> "Step-by-Step": each part is cased as if it stood alone
+    const decisions = parts.map((part, index) => {
+      if (!part) return { converted: part, rule: "" };
+      if (index === 0) return convertPart(part, { ...position, last: false });
+      return convertPart(part, { ...MIDDLE, last: position.last && index === parts.length - 1 });
+    });
+    const laterPartCapitalized = decisions.slice(1).some(decision => /^\p{Lu}/u.test(decision.converted));
+
+    return {
+      converted: decisions.map(decision => decision.converted).join('-'),
+      rule: laterPartCapitalized ? "Capitalized each part of a hyphenated compound" : decisions[0].rule,
+    };
+  };
+
+  return (word: string, position: WordPosition): CaseDecision => {
+    // Keep wrapping punctuation such as quotes, brackets and trailing colons
+    const [, leading, core, trailing] = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u.exec(word) || ['', '', word, ''];
+    if (!core) {
+      return { converted: word, rule: "Left punctuation unchanged" };
+    }
+
+    const decision = convertCompound(core, position);
+    return { converted: leading + decision.converted + trailing, rule: decision.rule };
+  };
+}
+
+export function toTitleCase(text: string, options: TitleCaseOptions = {}): TitleCaseResponse {
+  const language = options.language || detectLanguage(text);
+
+  // All-caps input carries no casing information worth keeping
+  const shouting = text === text.toUpperCase() && text !== text.toLowerCase();
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0);
+
+  // The style guides are English conventions, so without a requested style
+  // other languages title in sentence case. A requested style always applies.
+  const style: TitleCaseStyle = options.style || (language === "en" ? "chicago" : "sentence");
+  let rule: CaseRule;
+  if (style === "sentence") {
+    rule = language === "en" ? englishSentenceRule : nativeSentenceRule(language);
+  } else {
+    rule = styleGuideRule(TITLE_CASE_STYLES[style]);
+  }
+
+  const customDictionary = new Map(parseKeywordList(options.customDictionary).map(word => [word.toLowerCase(), word]));
+  const convertWord = createWordConverter(rule, customDictionary, !shouting);
+
+  const wordResults: WordResult[] = words.map((original, index) => ({
+    original,
+    ...convertWord(shouting ? original.toLowerCase() : original, {
+      first: index === 0,
+      afterColon: index > 0 && /:[^\p{L}\p{N}]*$/u.test(words[index - 1]),
+      last: index === words.length - 1,
+    }),
+  }));
+
+  const rulesApplied = Array.from(new Set(wordResults.map(word => word.rule)));
+  if (shouting) {
+    rulesApplied.unshift("Lowercased all-caps input before converting");
+  }
+
+  return {
+    original: text,
+    converted: wordResults.map(word => word.converted).join(' '),
+    rulesApplied,
+    words: wordResults,
+    style,
+    language,
+  };
+}
+
+export function toTitleCaseBatch(texts: string[], options: TitleCaseOptions = {}): TitleCaseBatchResponse {
+  const rows = texts.map(text => {
+    const { converted, language, style } = toTitleCase(text, options);
+    // Surrounding whitespace is dropped on conversion and does not count as a change
+    return { original: text, converted, changed: converted !== text.trim(), language, style };
+  });
+
+  return {
+    rows,
+    style: options.style,
+    changedCount: rows.filter(row => row.changed).length,
+  };
+}
@@ -0,0 +1,41 @@
+// Shared tokenizer used by every analysis tool so the Express server and the
+// Vercel functions split text the same way. Letters and digits from any script
+// are kept ("optimización", "Größe"); punctuation and apostrophes split words.
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+// Split a comma-separated list ("seo, content marketing") into unique entries
+export function parseKeywordList(keywords?: string): string[] {
+  if (!keywords) return [];
+  const list = keywords.split(',').map(k => k.trim()).filter(k => k.length > 0);
+  return Array.from(new Set(list));
+}
+
+// A gap between sentences: end punctuation, then a capital or digit, possibly
+// behind an opening quote or bracket. Titles and abbreviations such as "Dr."
+// and "e.g." do not end a sentence.
+export const SENTENCE_BOUNDARY = /(?<=[.!?])(?<!\b(?:Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|vs|[Ee]\.g|[Ii]\.e|Inc|Ltd|Fig|approx)\.)\s+(?=["'“‘(]?[\p{Lu}\p{N}])/u;
+
+// Split prose into sentences. Markdown headings are skipped and each list item
+// counts as its own sentence, since neither ends in punctuation.
+export function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.replace(/^([-*•]|\d+[.)])\s+/, ''))
+    .flatMap(line => line.split(SENTENCE_BOUNDARY))
+    .map(sentence => sentence.trim())
+    .filter(sentence => countWords(sentence) > 0);
+}
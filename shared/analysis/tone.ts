@@ -0,0 +1,116 @@
+import type { Tone, ToneAnalysis } from "../schema";
+import { countWords, splitSentences } from "./tokenizer";
+
+export interface ToneProfile {
+  // Average words per sentence the tone is written to, counting list items as
+  // sentences the way the detector does
+  sentenceLength: number;
+  // Who the text speaks as and to
+  voice: string;
+  // Marker phrases that signal the tone, matched on word boundaries
+  markers: string[];
+}
+
+// The template writer follows these conventions and the detector scores text
+// against them, so a post written in one tone is recognised as that tone
+export const TONE_PROFILES: Record<Tone, ToneProfile> = {
+  professional: {
+    sentenceLength: 15,
+    voice: 'first person plural ("we", "our team"), no contractions',
+    markers: ['organization', 'organizations', 'team', 'teams', 'stakeholders', 'process', 'recommend', 'measurable', 'objectives', 'consistent', 'structured', 'framework'],
+  },
+  casual: {
+    sentenceLength: 13,
+    voice: 'first person singular ("I", "my"), relaxed contractions',
+    markers: ['honestly', 'pretty', 'stuff', 'frankly', 'sure', 'magic', 'game-changer', 'sweet spot', 'quite', 'I wish'],
+  },
+  friendly: {
+    sentenceLength: 6,
+    voice: 'second person ("you"), warm and encouraging, exclamation marks welcome',
+    markers: ['together', "don't worry", "you've got this", 'great', 'love', 'fun', 'enjoy', 'celebrate', 'welcome', 'ready'],
+  },
+  authoritative: {
+    sentenceLength: 17,
+    voice: 'impersonal third person, declarative, no hedging',
+    markers: ['evidence', 'research', 'studies', 'data', 'proven', 'must', 'established', 'standard', 'experts', 'demonstrates', 'rigorous', 'rigorously', 'critical'],
+  },
+};
+
+const TONES = Object.keys(TONE_PROFILES) as Tone[];
+
+const FIRST_SINGULAR = /\b(i|i'm|i've|i'd|i'll|me|my|mine|myself)\b/gi;
+const FIRST_PLURAL = /\b(we|we're|we've|we'll|we'd|us|our|ours|ourselves)\b/gi;
+const SECOND_PERSON = /\b(you|you're|you've|you'll|you'd|your|yours|yourself)\b/gi;
+const CONTRACTION = /\b\w+(n't|'re|'ve|'ll|'m|'d)\b|\b(it's|that's|there's|here's|let's|what's)\b/gi;
+
+function count(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function countMarkers(text: string, markers: string[]): number {
+  const lower = text.toLowerCase();
+  return markers.reduce((total, marker) => {
+    const escaped = marker.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return total + count(lower, new RegExp(`\\b${escaped}\\b`, 'g'));
+  }, 0);
+}
+
+// Scale a rate to 0-1, reaching 1 at `full`
+function saturate(value: number, full: number): number {
+  return Math.min(1, value / full);
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// Score text against each tone profile. Each score mixes how close the
+// sentence length is to the tone's target with the pronoun, contraction and
+// marker conventions of that tone; confidence is the winner's share of all
+// scores.
+export function detectTone(text: string): ToneAnalysis {
+  // Curly apostrophes would hide contractions from the patterns above
+  const normalized = text.replace(/[‘’]/g, "'");
+  const sentences = splitSentences(normalized);
+  const words = Math.max(countWords(sentences.join(' ')), 1);
+  const per100 = (value: number) => (value / words) * 100;
+
+  const averageSentenceLength = sentences.length ? words / sentences.length : 0;
+  const firstPersonSingular = per100(count(normalized, FIRST_SINGULAR));
+  const firstPersonPlural = per100(count(normalized, FIRST_PLURAL));
+  const secondPerson = per100(count(normalized, SECOND_PERSON));
+  const contractions = per100(count(normalized, CONTRACTION));
+  const exclamations = sentences.length ? sentences.filter(sentence => sentence.endsWith('!')).length / sentences.length : 0;
+  const markers = (tone: Tone) => saturate(per100(countMarkers(normalized, TONE_PROFILES[tone].markers)), 2);
+  const sentenceFit = (tone: Tone) => Math.max(0, 1 - Math.abs(averageSentenceLength - TONE_PROFILES[tone].sentenceLength) / 8);
+
+  const informal = saturate(contractions, 3);
+  const scores: Record<Tone, number> = {
+    professional: 0.3 * sentenceFit('professional') + 0.25 * saturate(firstPersonPlural, 2) + 0.2 * (1 - informal) + 0.25 * markers('professional'),
+    casual: 0.3 * sentenceFit('casual') + 0.3 * saturate(firstPersonSingular, 2) + 0.2 * informal + 0.2 * markers('casual'),
+    friendly: 0.3 * sentenceFit('friendly') + 0.2 * saturate(secondPerson, 5) + 0.25 * saturate(exclamations, 0.2) + 0.25 * markers('friendly'),
+    authoritative: 0.3 * sentenceFit('authoritative') + 0.15 * (1 - saturate(firstPersonSingular + secondPerson, 2)) + 0.15 * (1 - informal) + 0.4 * markers('authoritative'),
+  };
+
+  const tone = TONES.reduce((best, candidate) => scores[candidate] > scores[best] ? candidate : best, TONES[0]);
+  const total = TONES.reduce((sum, candidate) => sum + scores[candidate], 0);
+
+  return {
+    tone,
+    confidence: total > 0 ? round(scores[tone] / total) : 0,
+    scores: {
+      professional: round(scores.professional),
+      casual: round(scores.casual),
+      friendly: round(scores.friendly),
+      authoritative: round(scores.authoritative),
+    },
+    averageSentenceLength: round(averageSentenceLength, 1),
+    pronouns: {
+      firstPersonSingular: round(firstPersonSingular, 1),
+      firstPersonPlural: round(firstPersonPlural, 1),
+      secondPerson: round(secondPerson, 1),
+    },
+    contractions: round(contractions, 1),
+  };
+}
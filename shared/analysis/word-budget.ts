@@ -0,0 +1,59 @@
+import type { SectionWordCount } from "../schema";
+import { countWords } from "./tokenizer";
+
+// How far a generated post may stray from its requested length, as a share
+// of the target
+export const WORD_COUNT_TOLERANCE = 0.1;
+
+// Each subsection's share of the budget relative to a body section's
+export const SUBSECTION_WEIGHT = 0.35;
+
+interface OutlineSection {
+  heading: string;
+  subsections?: string[];
+  // A set length the budget cannot stretch or shrink
+  fixedWords?: number;
+}
+
+function isBookend(heading: string): boolean {
+  const lower = heading.toLowerCase();
+  return lower.includes('introduction') || lower.includes('conclusion');
+}
+
+// Split a post's word target across its sections. Headings are paid for up
+// front, introductions and conclusions get a lighter share than body
+// sections, and every subsection adds to its section's share. Fixed-length
+// sections keep their own length and the rest share what remains.
+export function allocateWordBudget<T extends OutlineSection>(sections: T[], totalWords: number): (T & { targetWords: number })[] {
+  const headingWords = sections.reduce((total, section) =>
+    total + countWords(section.heading) + (section.subsections || []).reduce((sum, subsection) => sum + countWords(subsection), 0), 0);
+  const fixedWords = sections.reduce((total, section) => total + (section.fixedWords ?? 0), 0);
+  const available = Math.max(totalWords - headingWords - fixedWords, sections.length);
+  const weights = sections.map(section => section.fixedWords !== undefined ? 0 :
+    (isBookend(section.heading) ? 0.6 : 1) + SUBSECTION_WEIGHT * (section.subsections?.length || 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  return sections.map((section, index) => ({
+    ...section,
+    targetWords: section.fixedWords ?? Math.max(1, Math.round(available * weights[index] / totalWeight)),
+  }));
+}
+
+// Body words under each "## " heading, not counting subheadings, matched to
+// the planned sections by heading and falling back to position when a writer
+// renamed a heading
+export function measureSectionWords(content: string, sections: { heading: string; targetWords: number }[]): SectionWordCount[] {
+  const chunks = content
+    .split(/\n(?=## )/)
+    .filter(chunk => chunk.trim().startsWith('## '))
+    .map(chunk => {
+      const [headingLine, ...body] = chunk.trim().split('\n');
+      const prose = body.filter(line => !line.trim().startsWith('#')).join('\n');
+      return { heading: headingLine.replace(/^##\s+/, '').trim().toLowerCase(), wordCount: countWords(prose) };
+    });
+
+  return sections.map((section, index) => {
+    const chunk = chunks.find(candidate => candidate.heading === section.heading.toLowerCase()) || chunks[index];
+    return { heading: section.heading, targetWords: section.targetWords, wordCount: chunk ? chunk.wordCount : 0 };
+  });
+}
@@ -1,43 +1,210 @@
 import { z } from "zod";
 
+// Languages supported by the analysis tools; omit to auto-detect
+export const languageSchema = z.enum(["en", "es", "fr", "de", "pt", "it"]);
+
+// Seed for the template generators; the same seed and inputs give the same output
+export const seedSchema = z.number().int().min(0).max(0xffffffff);
+
+// Writing tone shared by the generators
+export const toneSchema = z.enum(["professional", "casual", "friendly", "authoritative"]);
+
+// Reader profiles for the outline and writing tools. Requests describe their
+// audience in free text, which is matched to one of these.
+export const audienceSchema = z.enum(["beginners", "practitioners", "executives", "developers", "students"]);
+
+// What a searcher wants from a topic; picks the outline template
+export const searchIntentSchema = z.enum([
+  "informational", "how-to", "comparison", "review", "listicle", "definition", "commercial",
+]);
+
 // Meta Description Generator
+export const metaAudienceSchema = z.enum([
+  "beginners", "intermediate", "advanced", "business-owners", "marketers", "developers", "students",
+]);
+
 export const metaDescriptionRequestSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  audience: z.string().optional(),
+  // Comma-separated; the first keyword is worked into every candidate
+  keywords: z.string().optional(),
+  audience: metaAudienceSchema.optional(),
+  tone: toneSchema.default("professional"),
+  brandName: z.string().max(40, "Brand name must be 40 characters or fewer").optional(),
+  // How many ranked candidates to return
+  count: z.number().int().min(1).max(10).default(5),
+  seed: seedSchema.optional(),
+});
+
+export const metaDescriptionCandidateSchema = z.object({
+  content: z.string(),
+  length: z.number(),
+  // Out of 100: length 30, keyword 30, call to action 20, audience match 20
+  score: z.number(),
+  breakdown: z.object({
+    length: z.number(),
+    keyword: z.number(),
+    callToAction: z.number(),
+    audience: z.number(),
+  }),
+  explanation: z.string(),
 });
 
 export const metaDescriptionResponseSchema = z.object({
+  // The top-ranked candidate, kept for clients that only want one description
   content: z.string(),
   length: z.number(),
+  candidates: z.array(metaDescriptionCandidateSchema),
+  seed: seedSchema,
 });
 
 // Title Case Converter
+export const titleCaseStyleSchema = z.enum(["ap", "chicago", "apa", "mla", "bluebook", "sentence"]);
+
 export const titleCaseRequestSchema = z.object({
   text: z.string().min(1, "Text is required"),
+  // Chicago for English and sentence case for other languages when omitted
+  style: titleCaseStyleSchema.optional(),
+  language: languageSchema.optional(),
+  // Comma-separated words whose casing is kept exactly as written (brands, acronyms)
+  customDictionary: z.string().optional(),
 });
 
 export const titleCaseResponseSchema = z.object({
   original: z.string(),
   converted: z.string(),
+  // One entry per distinct rule that actually changed or kept a word's case
   rulesApplied: z.array(z.string()),
+  words: z.array(z.object({
+    original: z.string(),
+    converted: z.string(),
+    rule: z.string(),
+  })),
+  style: titleCaseStyleSchema,
+  language: languageSchema,
+});
+
+// Batch mode: the same options applied to many titles at once
+export const titleCaseBatchRequestSchema = titleCaseRequestSchema.omit({ text: true }).extend({
+  texts: z.array(z.string())
+    .min(1, "At least one title is required")
+    .max(1000, "Batch conversion is limited to 1,000 titles"),
+});
+
+export const titleCaseBatchResponseSchema = z.object({
+  rows: z.array(z.object({
+    original: z.string(),
+    converted: z.string(),
+    changed: z.boolean(),
+    language: languageSchema,
+    // The style this row was converted in, which follows its language when none was requested
+    style: titleCaseStyleSchema,
+  })),
+  // The requested style, if any
+  style: titleCaseStyleSchema.optional(),
+  changedCount: z.number(),
+});
+
+// SERP Snippet Preview
+export const serpPreviewRequestSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().default(""),
+  // Page URL shown as the breadcrumb line; a placeholder domain is used when omitted
+  url: z.string().optional(),
+});
+
+const serpLineSchema = z.object({
+  text: z.string(),
+  // Estimated rendered width in pixels, and the width Google shows before cutting
+  width: z.number(),
+  maxWidth: z.number(),
+  truncated: z.boolean(),
+});
+
+const serpSnippetSchema = z.object({
+  title: serpLineSchema,
+  description: serpLineSchema,
+});
+
+export const serpPreviewResponseSchema = z.object({
+  displayUrl: z.string(),
+  desktop: serpSnippetSchema,
+  mobile: serpSnippetSchema,
+});
+
+// Readability formulas and the sentences worth rewriting. Scores are
+// calibrated on English.
+export const readingLevelSchema = z.enum([
+  "very-easy", "easy", "fairly-easy", "standard", "fairly-difficult", "difficult", "very-difficult",
+]);
+
+export const readabilitySchema = z.object({
+  sentenceCount: z.number(),
+  wordCount: z.number(),
+  syllableCount: z.number(),
+  averageSentenceLength: z.number(),
+  averageSyllablesPerWord: z.number(),
+  // 0-100, higher is easier
+  fleschReadingEase: z.number(),
+  // US school grades
+  fleschKincaidGrade: z.number(),
+  gunningFog: z.number(),
+  smogIndex: z.number(),
+  readingLevel: readingLevelSchema,
+  // Sentences over 25 words; the list is capped, the count is not
+  longSentenceCount: z.number(),
+  longSentences: z.array(z.object({
+    text: z.string(),
+    wordCount: z.number(),
+  })),
+  // Sentences in the passive voice, with the passive phrase ("was written")
+  passiveSentenceCount: z.number(),
+  passiveSentences: z.array(z.object({
+    text: z.string(),
+    phrase: z.string(),
+  })),
 });
 
 // Keyword Density Analyzer
 export const keywordDensityRequestSchema = z.object({
-  content: z.string().min(50, "Content must be at least 50 words"),
+  content: z.string().min(50, "Content must be at least 50 characters"),
+  // Comma-separated keywords or phrases to report on regardless of frequency
+  targetKeywords: z.string().optional(),
+  // Drop common function words ("that", "with", "this") from the keyword list
+  filterStopwords: z.boolean().default(true),
+  // Comma-separated extra words to ignore on top of the built-in list
+  customStopwords: z.string().optional(),
+  // Group inflections ("optimize", "optimizing", "optimized") under one root
+  lemmatize: z.boolean().default(true),
+  language: languageSchema.optional(),
+});
+
+export const keywordDensityEntrySchema = z.object({
+  word: z.string(),
+  frequency: z.number(),
+  density: z.number(),
+  status: z.enum(["low", "good", "optimal", "high"]),
+  // Surface forms grouped under this keyword when lemmatization is on
+  variants: z.array(z.string()).optional(),
+});
+
+export const targetKeywordReportSchema = keywordDensityEntrySchema.extend({
+  inFirst100Words: z.boolean(),
+  inHeadings: z.boolean(),
+  inLastParagraph: z.boolean(),
 });
 
 export const keywordDensityResponseSchema = z.object({
+  language: languageSchema,
   totalWords: z.number(),
   uniqueKeywords: z.number(),
-  keywords: z.array(z.object({
-    word: z.string(),
-    frequency: z.number(),
-    density: z.number(),
-    status: z.enum(["low", "good", "optimal", "high"]),
-  })),
+  keywords: z.array(keywordDensityEntrySchema),
+  // Multi-word phrases; density counts every word the phrase covers
+  bigrams: z.array(keywordDensityEntrySchema),
+  trigrams: z.array(keywordDensityEntrySchema),
+  targets: z.array(targetKeywordReportSchema),
   avgDensity: z.number(),
   topKeywordDensity: z.number(),
+  readability: readabilitySchema,
 });
 
 // Blog Outline Generator
@@ -45,9 +212,10 @@ export const blogOutlineRequestSchema = z.object({
   topic: z.string().min(1, "Topic is required"),
   audience: z.string().optional(),
   length: z.enum(["short", "medium", "long"]).default("medium"),
+  seed: seedSchema.optional(),
 });
 
-export const blogOutlineResponseSchema = z.object({
+export const blogOutlineSchema = z.object({
   title: z.string(),
   sections: z.array(z.object({
     heading: z.string(),
@@ -58,25 +226,149 @@ export const blogOutlineResponseSchema = z.object({
   estimatedReadingTime: z.number(),
 });
 
+// Confidence runs from 0 to 1 and reflects both how strong the topic's intent
+// signals are and how clearly one intent leads the others
+export const intentAnalysisSchema = z.object({
+  intent: searchIntentSchema,
+  confidence: z.number(),
+});
+
+export const blogOutlineResponseSchema = blogOutlineSchema.extend({
+  audienceProfile: audienceSchema,
+  intentAnalysis: intentAnalysisSchema,
+  seed: seedSchema,
+});
+
+// How a finished post reads, measured from its text rather than the tone that
+// was requested. Rates are per 100 words.
+export const toneAnalysisSchema = z.object({
+  tone: toneSchema,
+  confidence: z.number(),
+  scores: z.object({
+    professional: z.number(),
+    casual: z.number(),
+    friendly: z.number(),
+    authoritative: z.number(),
+  }),
+  averageSentenceLength: z.number(),
+  pronouns: z.object({
+    firstPersonSingular: z.number(),
+    firstPersonPlural: z.number(),
+    secondPerson: z.number(),
+  }),
+  contractions: z.number(),
+});
+
+// Generated content as blocks, so clients can render, edit and re-export it
+// without parsing markdown. Inline text keeps its **bold** markup.
+export const calloutVariantSchema = z.enum(["tip", "note", "warning"]);
+
+export const contentBlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("heading"), level: z.number().int().min(1).max(6), text: z.string() }),
+  z.object({ type: z.literal("paragraph"), text: z.string() }),
+  z.object({ type: z.literal("list"), ordered: z.boolean(), items: z.array(z.string()) }),
+  z.object({ type: z.literal("callout"), variant: calloutVariantSchema, text: z.string() }),
+  // Fenced code, kept verbatim without the fence lines
+  z.object({ type: z.literal("code"), language: z.string().optional(), text: z.string() }),
+  // The table's markdown verbatim, plus its cells with the header row first
+  z.object({ type: z.literal("table"), rows: z.array(z.array(z.string())), text: z.string() }),
+]);
+
+// SEO scoring rules. A rule set overrides the defaults rule by rule; project
+// rule sets are stored on the server and request rule sets apply on top.
+export const seoRuleIdSchema = z.enum([
+  "titleLength", "wordCount", "keywordInTitle", "keywordInContent", "headings", "paragraphs", "lists", "callToAction",
+]);
+
+export const seoRuleSeveritySchema = z.enum(["error", "warning", "info"]);
+
+export const seoRuleConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  weight: z.number().min(0).max(100).optional(),
+  severity: seoRuleSeveritySchema.optional(),
+  // Bounds the measured value must fall within to pass
+  min: z.number().min(0).optional(),
+  max: z.number().min(0).optional(),
+}).refine(({ min, max }) => min === undefined || max === undefined || min <= max, {
+  message: "A rule's min cannot be greater than its max",
+  path: ["max"],
+});
+
+export const seoRuleSetSchema = z.record(seoRuleIdSchema, seoRuleConfigSchema);
+
+export const projectIdSchema = z.string().trim()
+  .regex(/^[a-z0-9_-]{1,64}$/i, "Project ID may only contain letters, numbers, hyphens and underscores");
+
+// One rule's outcome. Rules that do not apply, such as keyword checks when no
+// keywords were given, are left out of the breakdown and the score.
+export const seoRuleResultSchema = z.object({
+  id: seoRuleIdSchema,
+  label: z.string(),
+  weight: z.number(),
+  severity: seoRuleSeveritySchema,
+  passed: z.boolean(),
+  value: z.number(),
+  // The passing range in words, e.g. "50-60 characters"
+  target: z.string(),
+  suggestion: z.string(),
+});
+
+export const seoRuleDefinitionSchema = z.object({
+  id: seoRuleIdSchema,
+  label: z.string(),
+  weight: z.number(),
+  severity: seoRuleSeveritySchema,
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const seoRulesResponseSchema = z.object({
+  rules: z.array(seoRuleDefinitionSchema),
+});
+
+export const projectSeoRulesResponseSchema = z.object({
+  projectId: z.string(),
+  rules: seoRuleSetSchema,
+});
+
+// Planned and written length of one top-level section, in body words
+export const sectionWordCountSchema = z.object({
+  heading: z.string(),
+  targetWords: z.number(),
+  wordCount: z.number(),
+});
+
 // Blog Post Writer
 export const blogPostRequestSchema = z.object({
-  outline: blogOutlineResponseSchema.optional(),
+  outline: blogOutlineSchema.optional(),
   title: z.string().min(1, "Title is required"),
   targetKeywords: z.string().optional(),
   audience: z.string().optional(),
-  tone: z.enum(["professional", "casual", "friendly", "authoritative"]).default("professional"),
+  tone: toneSchema.default("professional"),
   length: z.enum(["short", "medium", "long"]).default("medium"),
+  seed: seedSchema.optional(),
+  // SEO rules saved for a project, with this request's overrides on top
+  projectId: projectIdSchema.optional(),
+  seoRules: seoRuleSetSchema.optional(),
 });
 
 export const blogPostResponseSchema = z.object({
   title: z.string(),
   content: z.string(),
+  document: z.array(contentBlockSchema),
   wordCount: z.number(),
   readingTime: z.number(),
   seoScore: z.number(),
   seoTips: z.array(z.string()),
+  seoRules: z.array(seoRuleResultSchema),
   metaDescription: z.string(),
   suggestedTags: z.array(z.string()),
+  toneAnalysis: toneAnalysisSchema,
+  readability: readabilitySchema,
+  audienceProfile: audienceSchema,
+  targetWordCount: z.number(),
+  sectionWordCounts: z.array(sectionWordCountSchema),
+  seed: seedSchema,
 });
 
 // Article Writer
@@ -88,33 +380,176 @@ export const articleRequestSchema = z.object({
   length: z.enum(["short", "medium", "long"]).default("medium"),
   includeIntro: z.boolean().default(true),
   includeConclusion: z.boolean().default(true),
+  seed: seedSchema.optional(),
+  // SEO rules saved for a project, with this request's overrides on top
+  projectId: projectIdSchema.optional(),
+  seoRules: seoRuleSetSchema.optional(),
 });
 
 export const articleResponseSchema = z.object({
   title: z.string(),
   content: z.string(),
+  document: z.array(contentBlockSchema),
   wordCount: z.number(),
   readingTime: z.number(),
   seoScore: z.number(),
   seoTips: z.array(z.string()),
+  seoRules: z.array(seoRuleResultSchema),
   metaDescription: z.string(),
   suggestedTags: z.array(z.string()),
+  toneAnalysis: toneAnalysisSchema,
+  readability: readabilitySchema,
+  audienceProfile: audienceSchema,
+  targetWordCount: z.number(),
+  sectionWordCounts: z.array(sectionWordCountSchema),
+  structure: z.array(z.object({
+    heading: z.string(),
+    level: z.number(),
+  })),
+  seed: seedSchema,
+});
+
+// Streaming variants of the blog post and article writers send a "start"
+// event, one "section" event per heading, then "done" with the full response
+export const contentStreamStartSchema = z.object({
+  title: z.string(),
   structure: z.array(z.object({
     heading: z.string(),
     level: z.number(),
   })),
+  seed: seedSchema,
+});
+
+export const contentStreamSectionSchema = z.object({
+  index: z.number(),
+  heading: z.string(),
+  content: z.string(),
+  document: z.array(contentBlockSchema),
+});
+
+// Content SEO Audit, for posts written outside the toolkit
+export const contentFormatSchema = z.enum(["markdown", "html", "text"]);
+
+export const contentAuditRequestSchema = z.object({
+  content: z.string().min(50, "Content must be at least 50 characters"),
+  // Detected from the content when omitted
+  format: contentFormatSchema.optional(),
+  // Falls back to the content's H1
+  title: z.string().trim().optional(),
+  metaDescription: z.string().trim().optional(),
+  targetKeywords: z.string().optional(),
+  language: languageSchema.optional(),
+  // SEO rules saved for a project, with this request's overrides on top
+  projectId: projectIdSchema.optional(),
+  seoRules: seoRuleSetSchema.optional(),
+});
+
+export const auditReadabilitySchema = readabilitySchema.extend({
+  paragraphCount: z.number(),
+  averageParagraphLength: z.number(),
+  // Paragraphs over 150 words
+  longParagraphCount: z.number(),
+});
+
+export const headingIssueSchema = z.object({
+  severity: seoRuleSeveritySchema,
+  message: z.string(),
+});
+
+export const headingAuditSchema = z.object({
+  outline: z.array(z.object({
+    heading: z.string(),
+    level: z.number(),
+  })),
+  issues: z.array(headingIssueSchema),
+});
+
+export const contentAuditResponseSchema = z.object({
+  format: contentFormatSchema,
+  title: z.string(),
+  // The content as normalized markdown, whatever format it arrived in
+  content: z.string(),
+  document: z.array(contentBlockSchema),
+  wordCount: z.number(),
+  readingTime: z.number(),
+  seoScore: z.number(),
+  seoTips: z.array(z.string()),
+  seoRules: z.array(seoRuleResultSchema),
+  // Scored against the main keyword; absent when no description was given
+  metaDescription: metaDescriptionCandidateSchema.optional(),
+  serpPreview: serpPreviewResponseSchema,
+  readability: auditReadabilitySchema,
+  density: keywordDensityResponseSchema,
+  headings: headingAuditSchema,
+});
+
+// SEO Title & Keywords Generator
+export const seoTitleRequestSchema = z.object({
+  keywords: z.string().trim().min(1, "Keywords are required"),
+  imageContext: z.string().optional(),
+  seed: seedSchema.optional(),
+});
+
+export const seoTitleResponseSchema = z.object({
+  seoTitles: z.array(z.string()),
+  seoTitle: z.string(), // backward compatibility
+  relatedKeywords: z.array(z.string()),
+  keywordString: z.string(),
+  titleScores: z.array(z.number()),
+  titleScore: z.number(), // backward compatibility
+  suggestions: z.array(z.string()),
+  seed: seedSchema,
 });
 
 // Type exports
+export type Language = z.infer<typeof languageSchema>;
+export type Tone = z.infer<typeof toneSchema>;
+export type Audience = z.infer<typeof audienceSchema>;
+export type SearchIntent = z.infer<typeof searchIntentSchema>;
+export type MetaAudience = z.infer<typeof metaAudienceSchema>;
 export type MetaDescriptionRequest = z.infer<typeof metaDescriptionRequestSchema>;
+export type MetaDescriptionCandidate = z.infer<typeof metaDescriptionCandidateSchema>;
 export type MetaDescriptionResponse = z.infer<typeof metaDescriptionResponseSchema>;
+export type TitleCaseStyle = z.infer<typeof titleCaseStyleSchema>;
 export type TitleCaseRequest = z.infer<typeof titleCaseRequestSchema>;
 export type TitleCaseResponse = z.infer<typeof titleCaseResponseSchema>;
+export type TitleCaseBatchRequest = z.infer<typeof titleCaseBatchRequestSchema>;
+export type TitleCaseBatchResponse = z.infer<typeof titleCaseBatchResponseSchema>;
+export type SerpPreviewRequest = z.infer<typeof serpPreviewRequestSchema>;
+export type SerpPreviewResponse = z.infer<typeof serpPreviewResponseSchema>;
 export type KeywordDensityRequest = z.infer<typeof keywordDensityRequestSchema>;
+export type KeywordDensityEntry = z.infer<typeof keywordDensityEntrySchema>;
+export type TargetKeywordReport = z.infer<typeof targetKeywordReportSchema>;
 export type KeywordDensityResponse = z.infer<typeof keywordDensityResponseSchema>;
+export type ReadingLevel = z.infer<typeof readingLevelSchema>;
+export type Readability = z.infer<typeof readabilitySchema>;
 export type BlogOutlineRequest = z.infer<typeof blogOutlineRequestSchema>;
+export type BlogOutline = z.infer<typeof blogOutlineSchema>;
+export type IntentAnalysis = z.infer<typeof intentAnalysisSchema>;
 export type BlogOutlineResponse = z.infer<typeof blogOutlineResponseSchema>;
+export type ToneAnalysis = z.infer<typeof toneAnalysisSchema>;
+export type CalloutVariant = z.infer<typeof calloutVariantSchema>;
+export type ContentBlock = z.infer<typeof contentBlockSchema>;
+export type SectionWordCount = z.infer<typeof sectionWordCountSchema>;
+export type SeoRuleId = z.infer<typeof seoRuleIdSchema>;
+export type SeoRuleSeverity = z.infer<typeof seoRuleSeveritySchema>;
+export type SeoRuleConfig = z.infer<typeof seoRuleConfigSchema>;
+export type SeoRuleSet = z.infer<typeof seoRuleSetSchema>;
+export type SeoRuleResult = z.infer<typeof seoRuleResultSchema>;
+export type SeoRuleDefinition = z.infer<typeof seoRuleDefinitionSchema>;
+export type SeoRulesResponse = z.infer<typeof seoRulesResponseSchema>;
+export type ProjectSeoRulesResponse = z.infer<typeof projectSeoRulesResponseSchema>;
 export type BlogPostRequest = z.infer<typeof blogPostRequestSchema>;
 export type BlogPostResponse = z.infer<typeof blogPostResponseSchema>;
 export type ArticleRequest = z.infer<typeof articleRequestSchema>;
 export type ArticleResponse = z.infer<typeof articleResponseSchema>;
+export type ContentStreamStart = z.infer<typeof contentStreamStartSchema>;
+export type ContentStreamSection = z.infer<typeof contentStreamSectionSchema>;
+export type ContentFormat = z.infer<typeof contentFormatSchema>;
+export type ContentAuditRequest = z.infer<typeof contentAuditRequestSchema>;
+export type AuditReadability = z.infer<typeof auditReadabilitySchema>;
+export type HeadingIssue = z.infer<typeof headingIssueSchema>;
+export type HeadingAudit = z.infer<typeof headingAuditSchema>;
+export type ContentAuditResponse = z.infer<typeof contentAuditResponseSchema>;
+export type SeoTitleRequest = z.infer<typeof seoTitleRequestSchema>;
+export type SeoTitleResponse = z.infer<typeof seoTitleResponseSchema>;